@@ -0,0 +1,306 @@
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import type { DateRange, SeedSources } from '../core/types';
+import { CitationStyles, type CitationStyle } from '../report/citation-styles';
+import { listFormats } from '../report/renderers';
+import { listTemplates } from '../report/templates';
+
+// Subcommands working on the research history; research runs a new query
+export const HistoryCommands = ['list', 'show', 'rerun', 'diff', 'chat'] as const;
+export type CliCommand = 'research' | (typeof HistoryCommands)[number];
+
+export interface CliOptions {
+  command: CliCommand;
+  // Run ids (or unique id prefixes) given to show, rerun, diff and chat
+  runIds: string[];
+  // Id of an interrupted run to continue
+  resume?: string;
+  // The research query, or the filter for list
+  query?: string;
+  breadth?: number;
+  depth?: number;
+  // Searches and chunk analyses to run at the same time
+  concurrency?: number;
+  // Only research pages published in this period
+  dateRange?: DateRange;
+  // URLs and files to build the research around
+  seeds?: SeedSources;
+  // File with answers to the clarifying questions
+  answersFile?: string;
+  // Whether to ask clarifying questions at all
+  clarify: boolean;
+  output?: string;
+  // Report formats to write, see listFormats()
+  formats: string[];
+  citationStyle?: CitationStyle;
+  // Template of a long-form report: a built-in name or a path to a template file
+  template?: string;
+  // Domains to restrict sources to, and domains never to use as sources
+  allowDomains?: string[];
+  denyDomains?: string[];
+  // Documents analysed per research level, best scoring first
+  maxSources?: number;
+  // Whether to answer follow-up questions about the run once it finishes
+  chat: boolean;
+  // Whether to use the cache of search results and model responses
+  cache: boolean;
+  quiet: boolean;
+  help: boolean;
+}
+
+// Thrown for invalid command line arguments; the CLI prints usage and exits with code 2
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const Usage = `Usage: npm start -- [options]
+       npm start -- list [--query <text>]
+       npm start -- show <run-id> [-o <path>] [-f <formats>] [-c <style>] [-t <template>]
+       npm start -- rerun <run-id> [options]
+       npm start -- diff <older-run-id> <newer-run-id> [-o <path>]
+       npm start -- chat <run-id> [-o <path>] [-f <formats>] [-c <style>] [-t <template>]
+       npm start -- --resume <run-id> [-o <path>] [-f <formats>] [-c <style>]
+
+Runs interactively when no query is given. Every run is recorded in the research
+history (output/history), where list, show, rerun, diff and chat find it. Run ids may be
+shortened to any prefix that matches a single run.
+
+Commands:
+  list                      List past runs, newest first; --query filters by query text
+  show <run-id>             Print the report of a past run, or save it with --output;
+                            --template writes it up from another template
+  rerun <run-id>            Research the query of a past run again, with the same brief,
+                            breadth, depth, date range and seeds unless given
+  diff <old-id> <new-id>    Show what changed between two runs on the same topic
+  chat <run-id>             Ask follow-up questions about a past run, answered from its
+                            sources; /dig researches a topic further, /export saves the report
+
+Options:
+  -q, --query <text>        Research query
+  -b, --breadth <n>         Number of search queries on the first level (1-10, default: 6)
+  -d, --depth <n>           Number of research levels (1-5, default: 3)
+  -j, --concurrency <n>     Searches and analyses to run at the same time (1-16, default: 4);
+                            provider quotas still apply, see RATE_LIMIT_<PROVIDER>
+      --since <date>        Only use pages published on or after this date (YYYY-MM-DD);
+                            searches and queries are limited to the period where possible
+      --until <date>        Only use pages published on or before this date (YYYY-MM-DD)
+      --seed-url <url>      Read a web page or PDF and analyse it alongside the search results;
+                            may be repeated
+      --seed-file <path>    Same for a local Markdown, text, HTML or PDF file; may be repeated
+  -a, --answers-file <path> Answers to the clarifying questions: a JSON array (in question
+                            order), a JSON object of question/answer pairs, or one answer per line
+      --no-clarify          Skip the clarifying questions
+      --resume <run-id>     Continue an interrupted or partly failed run from its checkpoint,
+                            without repeating the searches and analyses that finished
+  -o, --output <path>       Where to write the report (default: output/research-<query>-<date>)
+  -f, --format <formats>    Comma-separated report formats: ${listFormats().join(', ')}
+                            (default: markdown)
+  -c, --citation-style <s>  Style of the Sources section: ${CitationStyles.join(', ')}. Also writes the
+                            sources as BibTeX (.bib) and CSL-JSON (.csl.json) next to the report
+  -t, --template <name>     Write a long-form report from a template: ${listTemplates().join(', ')},
+                            or the path of a .ts/.js file exporting a ReportTemplate
+      --allow-domain <list> Comma-separated domains to take sources from, subdomains included
+                            (default: SOURCE_ALLOWLIST, or any domain)
+      --deny-domain <list>  Comma-separated domains never to take sources from (default:
+                            SOURCE_DENYLIST)
+      --max-sources <n>     Documents to analyse per level, best scoring first: by domain
+                            reputation, recency and content (1-100, default: 20)
+      --chat                Ask follow-up questions about the run once the report is saved,
+                            like the chat command
+      --no-cache            Neither read nor write the cache of search results and model
+                            responses in .cache
+      --quiet               Only print the path of the saved report
+  -h, --help                Show this help`;
+
+// Helper function to parse a YYYY-MM-DD date option
+function parseDate(name: string, value: string | undefined) {
+  if (value === undefined) return undefined;
+  const date = value.trim();
+  // Date.parse rejects months like 13 and would roll 2025-02-30 over to
+  // March, so check it parses and round-trips
+  const parsed = Date.parse(date);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(parsed) || new Date(parsed).toISOString().slice(0, 10) !== date) {
+    throw new CliUsageError(`--${name} must be a date like 2025-01-31, got "${value}"`);
+  }
+  return date;
+}
+
+// Helper function to check a seed URL can be fetched
+function isHttpUrl(value: string) {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Helper function to parse a comma-separated list of domains
+function parseDomains(value: string | undefined) {
+  if (value === undefined) return undefined;
+  return value.split(',').map(d => d.trim().toLowerCase()).filter(Boolean);
+}
+
+// Helper function to parse an integer option within bounds
+function parseBoundedInt(name: string, value: string | undefined, min: number, max: number) {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new CliUsageError(`--${name} must be a whole number between ${min} and ${max}, got "${value}"`);
+  }
+  return n;
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  let values;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: argv,
+      options: {
+        query: { type: 'string', short: 'q' },
+        breadth: { type: 'string', short: 'b' },
+        depth: { type: 'string', short: 'd' },
+        concurrency: { type: 'string', short: 'j' },
+        since: { type: 'string' },
+        until: { type: 'string' },
+        'seed-url': { type: 'string', multiple: true },
+        'seed-file': { type: 'string', multiple: true },
+        'answers-file': { type: 'string', short: 'a' },
+        'no-clarify': { type: 'boolean' },
+        resume: { type: 'string' },
+        output: { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        'citation-style': { type: 'string', short: 'c' },
+        template: { type: 'string', short: 't' },
+        'allow-domain': { type: 'string' },
+        'deny-domain': { type: 'string' },
+        'max-sources': { type: 'string' },
+        chat: { type: 'boolean' },
+        'no-cache': { type: 'boolean' },
+        quiet: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+      strict: true,
+      allowPositionals: true,
+    }));
+  } catch (e) {
+    throw new CliUsageError((e as Error).message);
+  }
+
+  const [command = 'research', ...runIds] = positionals;
+  if (positionals.length > 0 && !HistoryCommands.includes(command as (typeof HistoryCommands)[number])) {
+    throw new CliUsageError(`Unknown command "${command}", expected one of ${HistoryCommands.join(', ')}`);
+  }
+  const expectedIds = command === 'diff' ? 2 : ['show', 'rerun', 'chat'].includes(command) ? 1 : 0;
+  if (runIds.length !== expectedIds) {
+    throw new CliUsageError(
+      expectedIds === 0
+        ? `${command} does not take a run id`
+        : `${command} needs ${expectedIds === 1 ? 'a run id' : `${expectedIds} run ids`}, got ${runIds.length}`,
+    );
+  }
+
+  const formats = [...new Set((values.format ?? 'markdown').split(',').map(f => f.trim()).filter(Boolean))];
+  const unknownFormat = formats.find(f => !listFormats().includes(f));
+  if (unknownFormat || formats.length === 0) {
+    throw new CliUsageError(`--format must be one or more of ${listFormats().join(', ')}, got "${values.format}"`);
+  }
+  const citationStyle = values['citation-style']?.toLowerCase();
+  if (citationStyle !== undefined && !CitationStyles.includes(citationStyle as CitationStyle)) {
+    throw new CliUsageError(`--citation-style must be one of ${CitationStyles.join(', ')}, got "${citationStyle}"`);
+  }
+  if (values.resume !== undefined) {
+    const conflicting = positionals.length > 0 ? command
+      : values.query !== undefined ? '--query'
+      : values.breadth !== undefined ? '--breadth'
+      : values.depth !== undefined ? '--depth'
+      : values.since !== undefined ? '--since'
+      : values.until !== undefined ? '--until'
+      : values['seed-url'] !== undefined ? '--seed-url'
+      : values['seed-file'] !== undefined ? '--seed-file'
+      : values['answers-file'] !== undefined ? '--answers-file'
+      : values.template !== undefined ? '--template'
+      : undefined;
+    if (conflicting) {
+      throw new CliUsageError(`--resume continues a run with its own query and parameters and cannot be used with ${conflicting}`);
+    }
+  }
+  const since = parseDate('since', values.since);
+  const until = parseDate('until', values.until);
+  if (since && until && since > until) {
+    throw new CliUsageError(`--since (${since}) must not be after --until (${until})`);
+  }
+  const seedUrls = values['seed-url'] ?? [];
+  const invalidUrl = seedUrls.find(url => !isHttpUrl(url));
+  if (invalidUrl) {
+    throw new CliUsageError(`--seed-url must be an http(s) URL, got "${invalidUrl}"`);
+  }
+  const seedFiles = values['seed-file'] ?? [];
+  if (values.quiet && (command === 'chat' || values.chat)) {
+    throw new CliUsageError(`--quiet prints nothing to chat with and cannot be used with ${command === 'chat' ? command : '--chat'}`);
+  }
+  if (values['answers-file'] && values['no-clarify']) {
+    throw new CliUsageError('--answers-file and --no-clarify cannot be used together');
+  }
+
+  return {
+    command: command as CliCommand,
+    runIds,
+    resume: values.resume,
+    query: values.query?.trim() || undefined,
+    breadth: parseBoundedInt('breadth', values.breadth, 1, 10),
+    depth: parseBoundedInt('depth', values.depth, 1, 5),
+    concurrency: parseBoundedInt('concurrency', values.concurrency, 1, 16),
+    dateRange: since || until ? { since, until } : undefined,
+    seeds: seedUrls.length + seedFiles.length > 0 ? { urls: seedUrls, files: seedFiles } : undefined,
+    answersFile: values['answers-file'],
+    clarify: !values['no-clarify'],
+    output: values.output,
+    // A citation style implies the reference manager exports
+    formats: citationStyle ? [...new Set([...formats, 'bibtex', 'csl-json'])] : formats,
+    citationStyle: citationStyle as CitationStyle | undefined,
+    template: values.template,
+    allowDomains: parseDomains(values['allow-domain']),
+    denyDomains: parseDomains(values['deny-domain']),
+    maxSources: parseBoundedInt('max-sources', values['max-sources'], 1, 100),
+    chat: values.chat ?? false,
+    cache: !values['no-cache'],
+    quiet: values.quiet ?? false,
+    help: values.help ?? false,
+  };
+}
+
+// Answers read from an answers file: either in the order the clarifying
+// questions are asked, or already paired with their questions
+export type ClarifyingAnswers =
+  | { kind: 'ordered'; answers: string[] }
+  | { kind: 'paired'; pairs: { question: string; answer: string }[] };
+
+export async function readAnswersFile(path: string): Promise<ClarifyingAnswers> {
+  const text = await readFile(path, 'utf8');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Not JSON: one answer per line
+    return {
+      kind: 'ordered',
+      answers: text.split('\n').map(line => line.trim()).filter(Boolean),
+    };
+  }
+
+  if (Array.isArray(json) && json.every(a => typeof a === 'string')) {
+    return { kind: 'ordered', answers: json };
+  }
+  if (json && typeof json === 'object' && !Array.isArray(json)) {
+    return {
+      kind: 'paired',
+      pairs: Object.entries(json).map(([question, answer]) => ({ question, answer: String(answer) })),
+    };
+  }
+  throw new CliUsageError(`${path} must contain a JSON array of answers, a JSON object of question/answer pairs, or plain text`);
+}
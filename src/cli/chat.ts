@@ -0,0 +1,221 @@
+import { loadRun, loadRunIndex, recordRun } from '../core/history';
+import { extendResearch } from '../core/research-engine';
+import type { ResearchResult } from '../core/types';
+import { createVectorIndex, type VectorIndex } from '../core/vector-index';
+import { answerQuestion, type ConversationTurn } from '../report/answers';
+import { loadTemplate, type ReportTemplate } from '../report/templates';
+import { writeReport } from '../report/writer';
+import { extractCitations, stripCitations } from '../utils/citations';
+import { getLogger } from '../utils/logger';
+import type { CliOptions } from './args';
+import { saveReports } from './reports';
+
+// Reads the next line the user typed; undefined once the input ends
+export type ReadLine = (prompt: string) => Promise<string | undefined>;
+
+export const ChatHelp = `Ask a question about the research, or use a command:
+  /dig <topic>   Research a topic further and add what is found to the report;
+                 "/dig <n>" digs into key finding n
+  /findings      List the key findings, numbered for /dig
+  /export        Save the report again with what the digs found, and update the history
+  /help          Show this help
+  /exit          Leave the chat (or press Ctrl-D)`;
+
+// What a chat works on; digs replace the result and add to the index
+interface ChatSession {
+  result: ResearchResult;
+  // Undefined when the run's index could not be loaded; answers then come
+  // from the findings only, and the saved index is left alone
+  index?: VectorIndex;
+  template?: ReportTemplate;
+  breadth: number;
+  depth: number;
+  history: ConversationTurn[];
+  // Whether a dig found something the saved report doesn't have
+  unsaved: boolean;
+}
+
+// Helper function to list the key findings, numbered for /dig
+function formatFindingList(result: ResearchResult): string {
+  return result.report.keyFindings
+    .map((finding, i) => `${i + 1}. ${finding.title}${finding.confidence ? ` (${finding.confidence} confidence)` : ''}`)
+    .join('\n');
+}
+
+// Helper function to list the sources an answer cites
+function formatCitedSources(answer: string, result: ResearchResult): string {
+  return extractCitations(answer)
+    .sort((a, b) => a - b)
+    .flatMap(id => {
+      const source = result.report.sources[id - 1];
+      return source ? [`[${id}] ${source.title} (${source.url})`] : [];
+    })
+    .join('\n');
+}
+
+// Helper function to answer a question, keeping it in the conversation
+async function ask(session: ChatSession, question: string) {
+  try {
+    getLogger().log('\n🔎 Looking through the sources...');
+    const answer = await answerQuestion({
+      result: session.result,
+      question,
+      index: session.index,
+      history: session.history,
+    });
+    session.history.push({ question, answer });
+    const cited = formatCitedSources(answer, session.result);
+    getLogger().log(`\n${answer}${cited ? `\n\n${cited}` : ''}`);
+  } catch (e) {
+    getLogger().error('\n❌ Could not answer the question:', e);
+  }
+}
+
+// Helper function to research a topic, or a key finding by its number, further
+async function dig(session: ChatSession, argument: string, options: CliOptions) {
+  let topic = argument;
+  if (/^\d+$/.test(argument)) {
+    const finding = session.result.report.keyFindings[Number(argument) - 1];
+    if (!finding) {
+      getLogger().log(`\nThere is no finding ${argument}; /findings lists them`);
+      return;
+    }
+    topic = `${finding.title}: ${finding.details.map(stripCitations).join(' ')}`;
+  }
+  if (!topic) {
+    getLogger().log('\nWhat should I dig into? Use /dig <topic> or /dig <finding number>');
+    return;
+  }
+
+  try {
+    const result = await extendResearch(session.result, {
+      topic,
+      concurrency: options.concurrency,
+      index: session.index,
+    });
+    if (result === session.result) {
+      getLogger().log('\nThe dig found nothing new.');
+      return;
+    }
+    const added = result.report.sources.length - session.result.report.sources.length;
+    session.result = result;
+    session.unsaved = true;
+    getLogger().log(`\n✅ Added ${added} sources; the report now has ${result.report.keyFindings.length} key findings:`);
+    getLogger().log(formatFindingList(result));
+    getLogger().log('\nAsk about them, or /export to save the report with them');
+  } catch (e) {
+    getLogger().error('\n❌ The dig failed, the report is unchanged:', e);
+  }
+}
+
+// Helper function to save the reports again and update the run's history record
+async function exportReport(session: ChatSession, options: CliOptions) {
+  try {
+    // The digs dropped the sections of the long-form report, so they are written again
+    if (session.template) {
+      session.result = await writeReport(session.result, session.template, { index: session.index });
+    }
+    const filepaths = await saveReports(session.result, options);
+    await recordRun({
+      result: session.result,
+      breadth: session.breadth,
+      depth: session.depth,
+      reports: filepaths,
+      index: session.index,
+    });
+    session.unsaved = false;
+    getLogger().log(`\n💾 Saved ${filepaths.join(', ')}`);
+    getLogger().log(`🗂️ Updated run ${session.result.id} in the history`);
+  } catch (e) {
+    getLogger().error('\n❌ Could not export the report:', e);
+  }
+}
+
+// Answers follow-up questions about a finished run until the user leaves.
+// Answers come from the run's sources only; /dig runs another level of
+// research on one topic, and /export saves the report with what it found.
+export async function chat(
+  {
+    result,
+    index,
+    template,
+    breadth,
+    depth,
+  }: Omit<ChatSession, 'history' | 'unsaved'>,
+  options: CliOptions,
+  readLine: ReadLine,
+): Promise<void> {
+  const session: ChatSession = { result, index, template, breadth, depth, history: [], unsaved: false };
+  const { report } = result;
+  getLogger().log(`\n💬 Ask anything about "${result.query}" (${report.keyFindings.length} key findings, ${report.sources.length} sources).`);
+  getLogger().log('/help lists the commands, /exit leaves.');
+
+  let warnedUnsaved = false;
+  for (;;) {
+    const line = await readLine('\n💬 ');
+    // Only an /exit right after the warning leaves anyway
+    const confirmedExit = warnedUnsaved;
+    warnedUnsaved = false;
+    if (line === undefined) {
+      if (session.unsaved) {
+        getLogger().log('\nLeaving without saving what the digs found.');
+      }
+      return;
+    }
+    if (!line) continue;
+    if (!line.startsWith('/')) {
+      await ask(session, line);
+      continue;
+    }
+
+    const [command = '', ...rest] = line.slice(1).split(/\s+/);
+    const argument = rest.join(' ').trim();
+    switch (command.toLowerCase()) {
+      case 'dig':
+        await dig(session, argument, options);
+        break;
+      case 'findings':
+        getLogger().log(`\n${formatFindingList(session.result) || 'The report has no key findings.'}`);
+        break;
+      case 'export':
+        await exportReport(session, options);
+        break;
+      case 'help':
+        getLogger().log(`\n${ChatHelp}`);
+        break;
+      case 'exit':
+      case 'quit':
+        // Leaving would lose what the digs found, so ask once more
+        if (session.unsaved && !confirmedExit) {
+          warnedUnsaved = true;
+          getLogger().log('\nThe saved report doesn\'t have what the digs found yet: /export to save it, or /exit again to leave anyway');
+          break;
+        }
+        return;
+      default:
+        getLogger().log(`\nUnknown command /${command}\n\n${ChatHelp}`);
+    }
+  }
+}
+
+// Chats about a run from the history, grounded in its saved index if it has one
+export async function chatCommand(options: CliOptions, readLine: ReadLine): Promise<number> {
+  const record = await loadRun(options.runIds[0]!);
+  if (record.result.error) {
+    getLogger().error(`Run ${record.id} failed (${record.result.error}), there is nothing to ask about`);
+    return 1;
+  }
+  const templateName = options.template ?? record.result.report.template;
+  const template = templateName ? await loadTemplate(templateName) : undefined;
+
+  // Runs recorded without an index start a new one for the digs
+  let index: VectorIndex | undefined;
+  try {
+    index = await loadRunIndex(record.id) ?? createVectorIndex();
+  } catch (e) {
+    getLogger().error(`\n⚠️ Could not load the index of run ${record.id}, answering from the findings only:`, (e as Error).message);
+  }
+
+  await chat({ result: record.result, index, template, breadth: record.breadth, depth: record.depth }, options, readLine);
+  return 0;
+}
@@ -0,0 +1,76 @@
+import { basename, dirname, extname, resolve } from 'path';
+import { diffRuns, formatRunDiff } from '../core/history-diff';
+import { listRuns, loadRun, loadRunIndex, type HistoryEntry } from '../core/history';
+import { formatReport } from '../report/markdown';
+import { loadTemplate } from '../report/templates';
+import { writeReport } from '../report/writer';
+import { saveToFile } from '../utils/file';
+import { getLogger } from '../utils/logger';
+import type { CliOptions } from './args';
+import { saveReports } from './reports';
+
+// Helper function to render the run list as an aligned table
+export function formatRunList(entries: HistoryEntry[]): string {
+  if (entries.length === 0) {
+    return 'No research runs recorded yet.';
+  }
+  return entries.map(entry => {
+    const date = entry.createdAt.replace('T', ' ').slice(0, 16);
+    const stats = `b${entry.breadth} d${entry.depth}, ${entry.findingCount} findings, ${entry.sourceCount} sources`;
+    const status = entry.error ? ' (failed)' : '';
+    return `${entry.id}  ${date}  ${entry.query}\n${' '.repeat(entry.id.length + 2)}${stats}${status}`;
+  }).join('\n');
+}
+
+export async function listCommand(options: CliOptions): Promise<number> {
+  const entries = await listRuns({ query: options.query });
+  process.stdout.write(`${formatRunList(entries)}\n`);
+  return 0;
+}
+
+export async function showCommand(options: CliOptions): Promise<number> {
+  const record = await loadRun(options.runIds[0]!);
+  // A past run can be written up from another template, grounded in its
+  // saved index if it has one
+  let result = record.result;
+  if (options.template) {
+    const template = await loadTemplate(options.template);
+    const index = await loadRunIndex(record.id).catch(e => {
+      getLogger().error(`\n⚠️ Could not load the index of run ${record.id}, writing without it:`, (e as Error).message);
+      return undefined;
+    });
+    result = await writeReport(record.result, template, { index });
+  }
+
+  // Print the report unless asked to save it
+  if (!options.output) {
+    process.stdout.write(formatReport(result, { citationStyle: options.citationStyle }));
+    return 0;
+  }
+
+  const filepaths = await saveReports(result, options);
+  process.stdout.write(filepaths.map(f => `${f}\n`).join(''));
+  return 0;
+}
+
+export async function diffCommand(options: CliOptions): Promise<number> {
+  const [older, newer] = await Promise.all(options.runIds.map(id => loadRun(id)));
+  const diff = diffRuns(older!.result, newer!.result);
+  if (!diff.sameQuery) {
+    getLogger().error(`⚠️ The runs researched different queries: "${diff.from.query}" and "${diff.to.query}"`);
+  }
+
+  const markdown = formatRunDiff(diff);
+  if (!options.output) {
+    process.stdout.write(markdown);
+    return 0;
+  }
+
+  const output = resolve(options.output);
+  const filepath = await saveToFile(markdown, basename(output, extname(output)), {
+    directory: dirname(output),
+    extension: extname(output) || '.md',
+  });
+  process.stdout.write(`${filepath}\n`);
+  return 0;
+}
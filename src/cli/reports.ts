@@ -0,0 +1,38 @@
+import { basename, dirname, extname, resolve } from 'path';
+import type { ResearchResult } from '../core/types';
+import { getRenderer } from '../report/renderers';
+import { saveToFile } from '../utils/file';
+import type { CliOptions } from './args';
+
+// Render and save the report in every requested format, returning the file paths
+export async function saveReports(
+  result: ResearchResult,
+  options: Pick<CliOptions, 'output' | 'formats' | 'citationStyle'>,
+): Promise<string[]> {
+  const sanitizedQuery = result.query.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 50);
+  const output = options.output ? resolve(options.output) : undefined;
+  const filepaths: string[] = [];
+  for (const format of options.formats) {
+    const renderer = getRenderer(format);
+    const content = await renderer.render(result, { citationStyle: options.citationStyle });
+
+    let filepath: string;
+    if (output && options.formats.length === 1) {
+      filepath = await saveToFile(content, basename(output), {
+        directory: dirname(output),
+        extension: extname(output) || renderer.extension,
+      });
+    } else if (output) {
+      // Several formats share the output path, each with its own extension
+      filepath = await saveToFile(content, basename(output, extname(output)), {
+        directory: dirname(output),
+        extension: renderer.extension,
+      });
+    } else {
+      const filename = `research-${sanitizedQuery}-${new Date().toISOString().split('T')[0]}`;
+      filepath = await saveToFile(content, filename, { extension: renderer.extension });
+    }
+    filepaths.push(filepath);
+  }
+  return filepaths;
+}
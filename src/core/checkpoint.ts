@@ -0,0 +1,134 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { getLogger } from '../utils/logger';
+import { defaultHistoryDir } from './history';
+import type { DateRange, ResearchBrief, SeedSources } from './types';
+
+// What is needed to start the run again
+export interface CheckpointParams {
+  query: string;
+  brief?: ResearchBrief;
+  breadth: number;
+  depth: number;
+  dateRange?: DateRange;
+  seeds?: SeedSources;
+  // Report template name or path, for long-form reports
+  template?: string;
+}
+
+// The saved state of a run: the result of every finished step (generated
+// queries, fetched documents, analysed chunks), keyed by step
+interface CheckpointState {
+  id: string;
+  params: CheckpointParams;
+  updatedAt: string;
+  steps: Record<string, unknown>;
+}
+
+// Saves the result of every step of a run as it finishes, so an interrupted
+// run can be resumed without repeating the steps that already finished
+export interface Checkpoint {
+  id: string;
+  params: CheckpointParams;
+  // Returns the saved result of the step if there is one, otherwise runs it
+  // and saves the result. Failed steps and results `keep` rejects are not saved.
+  step<T>(key: string, fn: () => Promise<T>, keep?: (value: T) => boolean): Promise<T>;
+  // Number of steps that were restored instead of run
+  restoredSteps(): number;
+  // Deletes the checkpoint if every step succeeded; returns whether it did
+  finish(): Promise<boolean>;
+}
+
+export function defaultCheckpointDir(): string {
+  return join(defaultHistoryDir(), 'checkpoints');
+}
+
+// Helper function to build a checkpoint around its saved state
+function checkpointFromState(state: CheckpointState, directory: string): Checkpoint {
+  const path = join(directory, `${state.id}.json`);
+  let restored = 0;
+  let failures = 0;
+  // Writes are chained so concurrent steps never interleave them
+  let saving: Promise<void> = Promise.resolve();
+
+  const save = () => {
+    saving = saving.then(async () => {
+      state.updatedAt = new Date().toISOString();
+      await mkdir(directory, { recursive: true });
+      // Write to a temporary file first, so a crash never leaves a truncated checkpoint
+      await writeFile(`${path}.tmp`, JSON.stringify(state));
+      await rename(`${path}.tmp`, path);
+    }).catch(e => {
+      getLogger().error('\nError saving checkpoint:', e);
+    });
+    return saving;
+  };
+
+  return {
+    id: state.id,
+    params: state.params,
+    async step<T>(key: string, fn: () => Promise<T>, keep: (value: T) => boolean = () => true) {
+      if (key in state.steps) {
+        restored++;
+        return state.steps[key] as T;
+      }
+
+      let value: T;
+      try {
+        value = await fn();
+      } catch (e) {
+        failures++;
+        throw e;
+      }
+      if (keep(value)) {
+        state.steps[key] = value;
+        await save();
+      } else {
+        failures++;
+      }
+      return value;
+    },
+    restoredSteps: () => restored,
+    async finish() {
+      await saving;
+      if (failures > 0) {
+        return false;
+      }
+      await rm(path, { force: true });
+      return true;
+    },
+  };
+}
+
+export function createCheckpoint(
+  id: string,
+  params: CheckpointParams,
+  directory = defaultCheckpointDir(),
+): Checkpoint {
+  return checkpointFromState({ id, params, updatedAt: new Date().toISOString(), steps: {} }, directory);
+}
+
+// load the checkpoint of a run by its id, or by a prefix of it that matches a single checkpoint
+export async function loadCheckpoint(id: string, directory = defaultCheckpointDir()): Promise<Checkpoint> {
+  let files: string[];
+  try {
+    files = await readdir(directory);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+    files = [];
+  }
+
+  const ids = files
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.slice(0, -'.json'.length))
+    .filter(candidate => candidate.startsWith(id));
+  const match = ids.includes(id) ? id : ids.length === 1 ? ids[0] : undefined;
+  if (!match) {
+    throw new Error(ids.length > 1
+      ? `Run id "${id}" is ambiguous, it matches ${ids.join(', ')}`
+      : `No checkpoint found for run "${id}"; only unfinished runs can be resumed`);
+  }
+
+  const state: CheckpointState = JSON.parse(await readFile(join(directory, `${match}.json`), 'utf8'));
+  return checkpointFromState(state, directory);
+}
@@ -0,0 +1,103 @@
+import { countTokens, getLLMProvider } from '../models/providers/ai-models';
+import { RecursiveCharacterTextSplitter } from '../utils/text-splitter';
+import type { SearchDocument } from './web-search';
+
+// Assumed for providers that don't declare their context window
+const DefaultContextWindow = 32_000;
+// Tokens kept free for the analysis instructions and the model's response
+const ReservedTokens = 4096;
+// Upper bound for a chunk even on huge context windows, since analyses of
+// very long prompts get shallow and slow
+const MaxChunkTokens = 32_000;
+// Smallest useful chunk, for models with tiny context windows
+const MinChunkTokens = 1000;
+// Tokens of the "[n] Source: title (url)" line and separator above each piece
+const PieceHeaderTokens = 40;
+
+// A piece of a document, small enough to fit in one chunk
+export interface DocumentPiece {
+  document: SearchDocument;
+  text: string;
+  tokens: number;
+  // 1-based position of the piece in its document, and the number of pieces
+  part: number;
+  parts: number;
+}
+
+// the tokens of documents one analysis prompt can hold, given the model's context window
+export function chunkTokenBudget(contextWindow: number): number {
+  return Math.max(MinChunkTokens, Math.min(MaxChunkTokens, contextWindow - ReservedTokens));
+}
+
+// the chunk token budget of the current model provider
+export function currentChunkBudget(): number {
+  return chunkTokenBudget(getLLMProvider().contextWindow ?? DefaultContextWindow);
+}
+
+// split a document into pieces of at most `maxTokens` tokens, on paragraph,
+// line and sentence boundaries where possible. Consecutive pieces overlap, so
+// a statement cut at a boundary is still whole in one of them.
+export function splitDocument(document: SearchDocument, maxTokens: number): DocumentPiece[] {
+  const tokens = countTokens(document.content);
+  if (tokens <= maxTokens) {
+    return [{ document, text: document.content, tokens, part: 1, parts: 1 }];
+  }
+
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: maxTokens,
+    chunkOverlap: Math.min(500, Math.floor(maxTokens / 10)),
+    lengthFunction: countTokens,
+  });
+  const texts = splitter.splitText(document.content);
+  return texts.map((text, i) => ({
+    document,
+    text,
+    tokens: countTokens(text),
+    part: i + 1,
+    parts: texts.length,
+  }));
+}
+
+// Packs documents into chunks of at most `maxTokens` tokens each, as they
+// come in: `add` returns the chunks that are full, `flush` the last one
+export interface Chunker {
+  add(documents: SearchDocument[]): DocumentPiece[][];
+  flush(): DocumentPiece[][];
+}
+
+// create a chunker. Documents too long for a chunk are split into pieces
+// first; every piece keeps track of the document it came from, so citations
+// still point at the right source.
+export function createChunker(maxTokens: number): Chunker {
+  let currentChunk: DocumentPiece[] = [];
+  let currentTokens = 0;
+  return {
+    add(documents) {
+      const pieces = documents.flatMap(document => splitDocument(document, maxTokens - PieceHeaderTokens));
+      const chunks: DocumentPiece[][] = [];
+      for (const piece of pieces) {
+        const tokens = piece.tokens + PieceHeaderTokens;
+        if (currentChunk.length > 0 && currentTokens + tokens > maxTokens) {
+          chunks.push(currentChunk);
+          currentChunk = [];
+          currentTokens = 0;
+        }
+        currentChunk.push(piece);
+        currentTokens += tokens;
+      }
+      return chunks;
+    },
+    flush() {
+      const chunks = currentChunk.length > 0 ? [currentChunk] : [];
+      currentChunk = [];
+      currentTokens = 0;
+      return chunks;
+    },
+  };
+}
+
+// split documents into chunks of at most `maxTokens` tokens each
+export function chunkDocuments(documents: SearchDocument[], maxTokens: number): DocumentPiece[][] {
+  const chunker = createChunker(maxTokens);
+  return [...chunker.add(documents), ...chunker.flush()];
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { generateObject } from '../models/generate-object';
+import { getLogger } from '../utils/logger';
+import { generateFeedback } from './feedback';
+import type { ClarificationTurn, ResearchBrief } from './types';
+
+const BriefSchema = z.object({
+  scope: z.string().trim().min(1),
+  priorities: z.array(z.string().trim().min(1)),
+  exclusions: z.array(z.string().trim().min(1)),
+});
+
+// Distill the query and the clarifying answers into a structured research brief
+export async function generateResearchBrief({
+  query,
+  clarifications = [],
+}: {
+  query: string;
+  clarifications?: ClarificationTurn[];
+}): Promise<ResearchBrief> {
+  const answered = clarifications.filter(turn => turn.answer.trim().length > 0);
+  if (answered.length === 0) {
+    return { query, scope: query, priorities: [], exclusions: [], clarifications };
+  }
+
+  try {
+    getLogger().log('\n🧭 Building research brief...');
+
+    const prompt = `Given this research query: "${query}"
+
+The user answered these clarifying questions:
+${answered.map(({ question, answer }) => `Q: ${question}\nA: ${answer}`).join('\n')}
+
+Write a research brief that captures what the user wants researched.
+
+Format your response as a JSON object like this:
+{
+  "scope": "One or two sentences describing what the research should cover",
+  "priorities": [
+    "Most important aspect to focus on",
+    "Next most important aspect"
+  ],
+  "exclusions": [
+    "Aspect the user is not interested in"
+  ]
+}
+
+Only list exclusions the user actually expressed. Use empty lists where the answers say nothing.
+IMPORTANT: Return ONLY the JSON object, no other text.`;
+
+    const brief = await generateObject(BriefSchema, prompt);
+    return { query, ...brief, clarifications };
+  } catch (e) {
+    getLogger().error('\nError building research brief:', e);
+    // Fall back to a brief that carries the raw answers as priorities
+    return {
+      query,
+      scope: query,
+      priorities: answered.map(turn => turn.answer),
+      exclusions: [],
+      clarifications,
+    };
+  }
+}
+
+// Runs the clarification stage: asks the user clarifying questions, then
+// follow-up questions based on their answers for up to `maxRounds` rounds,
+// and returns the resulting research brief.
+export async function clarifyResearch({
+  query,
+  ask,
+  numQuestions = 3,
+  maxRounds = 2,
+}: {
+  query: string;
+  // Asks the user a question and resolves with their answer; resolve with
+  // undefined to stop asking
+  ask: (question: string) => Promise<string | undefined>;
+  numQuestions?: number;
+  maxRounds?: number;
+}): Promise<ResearchBrief> {
+  const clarifications: ClarificationTurn[] = [];
+
+  for (let round = 0; round < maxRounds; round++) {
+    const questions = await generateFeedback({
+      query,
+      numQuestions: round === 0 ? numQuestions : Math.max(1, numQuestions - 1),
+      history: clarifications,
+    });
+    if (questions.length === 0) {
+      break;
+    }
+
+    for (const question of questions) {
+      const answer = await ask(question);
+      if (answer === undefined) {
+        return generateResearchBrief({ query, clarifications });
+      }
+      clarifications.push({ question, answer });
+    }
+  }
+
+  return generateResearchBrief({ query, clarifications });
+}
+
+// Render a brief as prompt context for query generation and analysis
+export function formatBrief(brief: ResearchBrief): string {
+  const sections = [`Research query: ${brief.query}`];
+  if (brief.scope && brief.scope !== brief.query) {
+    sections.push(`Scope: ${brief.scope}`);
+  }
+  if (brief.priorities.length > 0) {
+    sections.push(`Priorities (most important first):\n${brief.priorities.map(p => `- ${p}`).join('\n')}`);
+  }
+  if (brief.exclusions.length > 0) {
+    sections.push(`Exclude:\n${brief.exclusions.map(e => `- ${e}`).join('\n')}`);
+  }
+  return sections.join('\n');
+}
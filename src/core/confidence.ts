@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import { generateObject } from '../models/generate-object';
+import { countTokens } from '../models/providers/ai-models';
+import { hashText } from '../utils/cache';
+import { extractCitations } from '../utils/citations';
+import { getLogger } from '../utils/logger';
+import { hostOf } from '../utils/url';
+import type { Checkpoint } from './checkpoint';
+import type { Confidence, Dispute, KeyFinding, Source } from './types';
+
+// Independent sites a finding needs for each confidence level
+const HighConfidenceSites = 3;
+const MediumConfidenceSites = 2;
+
+const DisputesSchema = z.object({
+  disputes: z.array(z.object({
+    topic: z.string().min(1),
+    claims: z.array(z.object({
+      claim: z.string().min(1),
+      sources: z.array(z.number().int()),
+    })),
+    assessment: z.string().default(''),
+    // Ids of the findings the dispute affects, like "F3"
+    findings: z.array(z.string()).default([]),
+  })).default([]),
+});
+
+// Helper function to get the site a source was published on; pages of the
+// same site don't count as independent of each other
+function siteOf(source: Source): string {
+  return hostOf(source.url) ?? source.url;
+}
+
+// the number of independent sites among the sources a finding cites
+export function independentSources(finding: KeyFinding, sources: Source[]): number {
+  const sites = new Set(
+    finding.details
+      .flatMap(extractCitations)
+      .map(id => sources[id - 1])
+      .filter((source): source is Source => source !== undefined)
+      .map(siteOf),
+  );
+  return sites.size;
+}
+
+// the confidence level of a finding, from how many independent sites back it
+export function scoreConfidence(finding: KeyFinding, sources: Source[]): Confidence {
+  const sites = independentSources(finding, sources);
+  return sites >= HighConfidenceSites ? 'high' : sites >= MediumConfidenceSites ? 'medium' : 'low';
+}
+
+// Helper function to list findings for the prompt as F1, F2, ... within the
+// token budget, one entry each; the findings are ranked, so the last ones are
+// left out first
+function formatFindings(findings: KeyFinding[], maxTokens: number): string[] {
+  const lines: string[] = [];
+  let used = 0;
+  for (const [i, finding] of findings.entries()) {
+    const line = `F${i + 1}. ${finding.title}\n${finding.details.map(d => `  - ${d}`).join('\n')}`;
+    used += countTokens(line);
+    if (used > maxTokens) {
+      getLogger().log(`Checking ${i} of ${findings.length} findings for disagreements to fit the model`);
+      break;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Helper function to ask the model which claims of the sources contradict each other
+async function findDisputes(
+  query: string,
+  findings: KeyFinding[],
+  sources: Source[],
+  maxTokens: number,
+  checkpoint?: Checkpoint,
+): Promise<Dispute[]> {
+  const sourceList = sources.map((s, i) => `[${i + 1}] ${s.title} (${siteOf(s)})`).join('\n');
+  // Findings left out of the prompt can't be disputed
+  const listed = formatFindings(findings, maxTokens - countTokens(sourceList));
+  const prompt = `Here are the findings of research on: "${query}"
+
+The findings are numbered F1, F2, ... Their details cite the numbered sources below with markers like [3].
+
+${listed.join('\n')}
+
+Sources:
+${sourceList}
+
+Find the points where sources contradict each other: different figures, dates or facts for the same thing, or opposite conclusions. Differences that are only about different products, versions or time periods are not contradictions. For each one, give each side as a claim with the ids of the sources that make it, assess which side is better supported and why, and list the findings it affects.
+If the sources agree, return an empty list.
+
+Format your response as a JSON object like this:
+{
+  "disputes": [
+    {
+      "topic": "Battery life of the iPhone 16 Pro Max",
+      "claims": [
+        { "claim": "Lasts up to 33 hours of video playback", "sources": [1, 4] },
+        { "claim": "Lasts up to 29 hours of video playback", "sources": [2] }
+      ],
+      "assessment": "The 33 hours figure comes from Apple's specifications and an independent test, the 29 hours from a pre-release rumor.",
+      "findings": ["F2"]
+    }
+  ]
+}
+
+IMPORTANT: Return ONLY the JSON object, no other text.`;
+
+  const find = () => generateObject(DisputesSchema, prompt);
+  const { disputes } = checkpoint
+    ? await checkpoint.step(`disputes:${hashText(prompt).slice(0, 16)}`, find)
+    : await find();
+
+  // Keep only sources and findings that exist, and disputes that still have two sides
+  return disputes.flatMap(({ topic, claims, assessment, findings: affected }): Dispute[] => {
+    const validClaims = claims
+      .map(c => ({ claim: c.claim, sources: [...new Set(c.sources)].filter(id => id >= 1 && id <= sources.length) }))
+      .filter(c => c.sources.length > 0);
+    if (validClaims.length < 2) return [];
+    const findingIds = [...new Set(affected.map(id => parseInt(id.replace(/^F/i, ''), 10)))]
+      .filter(n => n >= 1 && n <= listed.length);
+    return [{ topic, claims: validClaims, assessment, findings: findingIds }];
+  });
+}
+
+// Scores the confidence of every finding by the independent sites backing it,
+// and looks for claims the sources disagree on. Findings affected by a
+// dispute get low confidence.
+export async function analyzeConfidence({
+  query,
+  findings,
+  sources,
+  maxTokens,
+  checkpoint,
+}: {
+  query: string;
+  findings: KeyFinding[];
+  sources: Source[];
+  // Token budget of the findings and sources in the prompt
+  maxTokens: number;
+  checkpoint?: Checkpoint;
+}): Promise<{ keyFindings: KeyFinding[]; disputes: Dispute[] }> {
+  let disputes: Dispute[] = [];
+  // It takes two sources to disagree
+  if (findings.length > 0 && sources.length > 1) {
+    try {
+      getLogger().log('\n⚖️ Checking the findings for disagreements between sources...');
+      disputes = await findDisputes(query, findings, sources, maxTokens, checkpoint);
+      if (disputes.length > 0) {
+        getLogger().log(`Found ${disputes.length} disputed points`);
+      }
+    } catch (e) {
+      getLogger().error('\nError checking the findings for disagreements:', e);
+    }
+  }
+
+  const disputed = new Set(disputes.flatMap(d => d.findings));
+  return {
+    keyFindings: findings.map((finding, i) => ({
+      ...finding,
+      confidence: disputed.has(i + 1) ? 'low' : scoreConfidence(finding, sources),
+    })),
+    disputes,
+  };
+}
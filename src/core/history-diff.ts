@@ -0,0 +1,110 @@
+import { stripCitations } from '../utils/citations';
+import type { KeyFinding, ResearchResult, Source } from './types';
+
+export interface FindingChange {
+  title: string;
+  // Details only in the newer run
+  addedDetails: string[];
+  // Details only in the older run
+  removedDetails: string[];
+}
+
+// What changed between an older and a newer run on the same topic
+export interface RunDiff {
+  from: { id: string; query: string; finishedAt: string };
+  to: { id: string; query: string; finishedAt: string };
+  sameQuery: boolean;
+  addedQueries: string[];
+  removedQueries: string[];
+  addedSources: Source[];
+  removedSources: Source[];
+  addedFindings: KeyFinding[];
+  removedFindings: KeyFinding[];
+  changedFindings: FindingChange[];
+  // Learnings the newer run found that the older one did not
+  newLearnings: string[];
+}
+
+// Helper function to compare text regardless of case, spacing and punctuation
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+// Helper function to compare URLs regardless of protocol, www. and trailing slash
+function normalizeUrl(url: string): string {
+  return url.replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+// Helper function to list the items of `a` missing from `b`
+function missingFrom<T>(a: T[], b: T[], key: (item: T) => string): T[] {
+  const keys = new Set(b.map(key));
+  return a.filter(item => !keys.has(key(item)));
+}
+
+// Compare two runs. Citation markers are ignored when comparing finding
+// details, since source numbering differs between runs.
+export function diffRuns(older: ResearchResult, newer: ResearchResult): RunDiff {
+  const detailKey = (detail: string) => normalize(stripCitations(detail));
+  const findingKey = (finding: KeyFinding) => normalize(finding.title);
+  const sourceKey = (source: Source) => normalizeUrl(source.url);
+
+  const olderFindings = new Map(older.report.keyFindings.map(f => [findingKey(f), f]));
+  const changedFindings = newer.report.keyFindings.flatMap(finding => {
+    const previous = olderFindings.get(findingKey(finding));
+    if (!previous) return [];
+    const addedDetails = missingFrom(finding.details, previous.details, detailKey);
+    const removedDetails = missingFrom(previous.details, finding.details, detailKey);
+    if (addedDetails.length === 0 && removedDetails.length === 0) return [];
+    return [{ title: finding.title, addedDetails, removedDetails }];
+  });
+
+  return {
+    from: { id: older.id, query: older.query, finishedAt: older.timings.finishedAt },
+    to: { id: newer.id, query: newer.query, finishedAt: newer.timings.finishedAt },
+    sameQuery: normalize(older.query) === normalize(newer.query),
+    addedQueries: missingFrom(newer.searchQueries, older.searchQueries, normalize),
+    removedQueries: missingFrom(older.searchQueries, newer.searchQueries, normalize),
+    addedSources: missingFrom(newer.report.sources, older.report.sources, sourceKey),
+    removedSources: missingFrom(older.report.sources, newer.report.sources, sourceKey),
+    addedFindings: missingFrom(newer.report.keyFindings, older.report.keyFindings, findingKey),
+    removedFindings: missingFrom(older.report.keyFindings, newer.report.keyFindings, findingKey),
+    changedFindings,
+    newLearnings: missingFrom(newer.learnings, older.learnings, normalize),
+  };
+}
+
+// Render a diff as markdown
+export function formatRunDiff(diff: RunDiff): string {
+  const sections = [
+    `# Changes in "${diff.to.query}"`,
+    `From run \`${diff.from.id}\` (${diff.from.finishedAt}) to run \`${diff.to.id}\` (${diff.to.finishedAt})`,
+  ];
+  if (!diff.sameQuery) {
+    sections.push(`> **Note:** the runs researched different queries; the older one was "${diff.from.query}".`);
+  }
+
+  const list = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+  const section = (title: string, items: string[]) => {
+    if (items.length > 0) {
+      sections.push(`## ${title}\n\n${list(items)}`);
+    }
+  };
+
+  section('New Findings', diff.addedFindings.map(f => `**${f.title}**\n${f.details.map(d => `  - ${stripCitations(d)}`).join('\n')}`));
+  section('Changed Findings', diff.changedFindings.map(change => [
+    `**${change.title}**`,
+    ...change.addedDetails.map(d => `  - Added: ${stripCitations(d)}`),
+    ...change.removedDetails.map(d => `  - Removed: ${stripCitations(d)}`),
+  ].join('\n')));
+  section('Findings No Longer Reported', diff.removedFindings.map(f => f.title));
+  section('New Learnings', diff.newLearnings);
+  section('New Sources', diff.addedSources.map(s => `[${s.title}](${s.url})`));
+  section('Sources No Longer Used', diff.removedSources.map(s => `[${s.title}](${s.url})`));
+  section('New Search Queries', diff.addedQueries);
+  section('Dropped Search Queries', diff.removedQueries);
+
+  if (sections.length === (diff.sameQuery ? 2 : 3)) {
+    sections.push('No changes between the runs.');
+  }
+  return sections.join('\n\n') + '\n';
+}
@@ -0,0 +1,139 @@
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { ResearchResult } from './types';
+import { loadVectorIndex, type VectorIndex } from './vector-index';
+
+// One line of the history index
+export interface HistoryEntry {
+  id: string;
+  query: string;
+  // ISO timestamp of when the run finished
+  createdAt: string;
+  breadth: number;
+  depth: number;
+  sourceCount: number;
+  findingCount: number;
+  error?: string;
+  // Report files written for the run
+  reports: string[];
+}
+
+// Everything recorded about a run: its parameters, the clarifying answers
+// (in the brief), search queries, sources, findings and timings
+export interface HistoryRecord extends HistoryEntry {
+  result: ResearchResult;
+}
+
+export function defaultHistoryDir(): string {
+  return process.env.HISTORY_DIR ?? join(process.cwd(), 'output', 'history');
+}
+
+// Helper function to get the paths of the index, of a run record and of the
+// vector index saved with it
+function historyPaths(directory: string, id?: string) {
+  return {
+    index: join(directory, 'index.jsonl'),
+    record: id ? join(directory, 'runs', `${id}.json`) : '',
+    vectors: id ? join(directory, 'runs', `${id}.index.json`) : '',
+  };
+}
+
+export async function recordRun(
+  {
+    result,
+    breadth,
+    depth,
+    reports = [],
+    index,
+  }: {
+    result: ResearchResult;
+    breadth: number;
+    depth: number;
+    reports?: string[];
+    // The run's vector index, saved next to the record
+    index?: VectorIndex;
+  },
+  directory = defaultHistoryDir(),
+): Promise<HistoryRecord> {
+  const entry: HistoryEntry = {
+    id: result.id,
+    query: result.query,
+    createdAt: result.timings.finishedAt,
+    breadth,
+    depth,
+    sourceCount: result.report.sources.length,
+    findingCount: result.report.keyFindings.length,
+    ...(result.error ? { error: result.error } : {}),
+    reports,
+  };
+  const record: HistoryRecord = { ...entry, result };
+
+  const paths = historyPaths(directory, result.id);
+  await mkdir(join(directory, 'runs'), { recursive: true });
+  await writeFile(paths.record, JSON.stringify(record, null, 2));
+  if (index && index.size() > 0) {
+    await index.save(paths.vectors);
+  }
+  await appendFile(paths.index, `${JSON.stringify(entry)}\n`);
+
+  return record;
+}
+
+// list past runs, newest first, optionally only those whose query contains `query`
+export async function listRuns(
+  { query }: { query?: string } = {},
+  directory = defaultHistoryDir(),
+): Promise<HistoryEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(historyPaths(directory).index, 'utf8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw e;
+  }
+
+  const entries = text
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as HistoryEntry];
+      } catch {
+        // Skip lines left half-written by an interrupted run
+        return [];
+      }
+    });
+
+  // A resumed run is recorded again under the same id; its latest entry wins
+  const latest = [...new Map(entries.map(entry => [entry.id, entry])).values()];
+
+  const needle = query?.toLowerCase();
+  return latest
+    .filter(entry => !needle || entry.query.toLowerCase().includes(needle))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// load a run by its id, or by a prefix of it that matches a single run
+export async function loadRun(id: string, directory = defaultHistoryDir()): Promise<HistoryRecord> {
+  const matches = (await listRuns({}, directory)).filter(entry => entry.id.startsWith(id));
+  const exact = matches.find(entry => entry.id === id);
+  if (!exact && matches.length > 1) {
+    throw new Error(`Run id "${id}" is ambiguous, it matches ${matches.map(m => m.id).join(', ')}`);
+  }
+  const entry = exact ?? matches[0];
+  if (!entry) {
+    throw new Error(`No research run found with id "${id}"`);
+  }
+
+  return JSON.parse(await readFile(historyPaths(directory, entry.id).record, 'utf8'));
+}
+
+// load the vector index saved with a run; undefined for runs recorded without one
+export async function loadRunIndex(id: string, directory = defaultHistoryDir()): Promise<VectorIndex | undefined> {
+  try {
+    return await loadVectorIndex(historyPaths(directory, id).vectors);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw e;
+  }
+}
@@ -1,64 +1,87 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { generateFeedback } from './feedback';
-import { searchWeb } from './web-search';
+import { createHash } from 'crypto';
+import { createChunker, currentChunkBudget, type DocumentPiece } from './chunking';
+import { formatBrief } from './clarification';
+import { analyzeConfidence } from './confidence';
+import { loadSeeds } from './seed-sources';
+import { formatRejections, getVettingConfig, simhash, vetDocuments, type VettingResult } from './source-vetting';
+import { synthesizeReport } from './synthesis';
+import { createVectorIndex, formatPassages, type VectorIndex } from './vector-index';
+import { searchWeb, type SearchDocument } from './web-search';
 import pLimit from 'p-limit';
+import { z } from 'zod';
+import { generateObject } from '../models/generate-object';
+import { remapCitations } from '../utils/citations';
+import { getLogger, withLogger } from '../utils/logger';
+import { formatDateRange } from '../utils/publish-date';
+import { createRunId } from '../utils/run-id';
+import type {
+  ChunkSummary,
+  KeyFinding,
+  ResearchOptions,
+  ResearchProgress,
+  ResearchResult,
+  ResearchTimings,
+  Source,
+} from './types';
 
-// Initialize Gemini
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-const model = genAI.getGenerativeModel({ model: "gemini-pro" });
+const SerpQueriesSchema = z.object({
+  queries: z.array(z.string().trim().min(1)).min(1),
+});
 
-// Rate limit to 2 concurrent requests to avoid hitting API limits
-const limit = pLimit(2);
+const ChunkAnalysisSchema = z.object({
+  summary: z.string().min(1),
+  keyFindings: z.array(z.object({
+    title: z.string().min(1),
+    details: z.array(z.string()),
+  })),
+  learnings: z.array(z.string()).default([]),
+  followUpQuestions: z.array(z.string()).default([]),
+});
 
-// Helper function to delay execution
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Helper function to retry a function with exponential backoff
-async function retry<T>(
-  fn: () => Promise<T>,
-  retries = 3,
-  baseDelay = 2000,
-): Promise<T> {
+async function generateSerpQueries(
+  run: ResearchRun,
+  level: number,
+  query: string,
+  breadth: number,
+  learnings: string[] = [],
+  followUpQuestions: string[] = [],
+): Promise<string[]> {
   try {
-    return await fn();
-  } catch (e) {
-    if (retries === 0) throw e;
-    
-    // If we hit rate limits, wait longer
-    const isRateLimit = e.message?.includes('429') || e.message?.includes('quota');
-    const waitTime = isRateLimit ? baseDelay * 4 : baseDelay;
-    
-    console.log(`Rate limit hit, waiting ${waitTime/1000}s before retry...`);
-    await delay(waitTime);
-    
-    return retry(fn, retries - 1, waitTime * 2);
-  }
-}
+    getLogger().log('\n🔍 Generating search queries...');
 
-// Helper function to extract JSON from text
-function extractJSON(text: string): string | null {
-  // Try to find JSON between triple backticks first
-  const codeBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-  if (codeBlockMatch) {
-    return codeBlockMatch[1];
-  }
+    // On deeper levels, steer the queries towards what the previous level left open
+    const previousResearch = learnings.length > 0 || followUpQuestions.length > 0
+      ? `
+Learnings from previous research:
+${learnings.map(l => `- ${l}`).join('\n')}
 
-  // Try to find the outermost JSON object
-  const startIndex = text.indexOf('{');
-  const endIndex = text.lastIndexOf('}');
-  
-  if (startIndex === -1 || endIndex === -1) {
-    return null;
-  }
+Open questions to investigate next:
+${followUpQuestions.map(q => `- ${q}`).join('\n')}
 
-  return text.substring(startIndex, endIndex + 1);
-}
+Use these as follow-up directions: dig deeper into the open questions and avoid repeating what is already known.
+`
+      : '';
+
+    // The model doesn't know today's date, and would otherwise search for
+    // whatever was current when it was trained
+    const { dateRange } = run.options;
+    const timeframe = dateRange
+      ? `Only pages published ${formatDateRange(dateRange)} are relevant. Make the queries specific to that period where it helps, e.g. by naming the year.`
+      : 'Prefer recent information, and name the current year where the topic changes over time.';
+
+    // The first level builds on the documents the user provided, if any
+    const seedContext = level === 1 && run.seeds.length > 0
+      ? `
+The research is built around these documents the user provided:
+${run.seeds.map(d => `- ${d.title}: ${excerpt(d.content)}`).join('\n')}
+
+Search for what they leave open, and for sources that confirm, update or contradict them.
+`
+      : '';
 
-async function generateSerpQueries(query: string, breadth: number): Promise<string[]> {
-  try {
-    console.log('\n🔍 Generating search queries...');
-    
     const prompt = `Given this research query: "${query}"
+${previousResearch}${await groundingPassages(run, followUpQuestions)}${seedContext}
+Today's date is ${new Date().toISOString().slice(0, 10)}. ${timeframe}
 
 Generate ${breadth} unique search queries that will help gather comprehensive information.
 The queries should cover different aspects and use varied search terms for better results.
@@ -74,87 +97,171 @@ Format your response as a JSON object like this:
 
 IMPORTANT: Return ONLY the JSON object, no other text.`;
 
-    // Use rate limiting and retries
-    const result = await limit(() => 
-      retry(async () => {
-        const response = await model.generateContent(prompt);
-        return response;
-      })
+    const { queries } = await checkpointStep(run, `L${level}:queries`, () =>
+      generateObject(SerpQueriesSchema, prompt)
     );
-    
-    const text = result.response.text();
-    console.log('\nRaw response:', text);
+    getLogger().log('\nGenerated queries:', queries);
 
-    const jsonStr = extractJSON(text);
-    if (!jsonStr) {
-      throw new Error('No JSON found in response');
-    }
-
-    console.log('\nExtracted JSON:', jsonStr);
-    
-    const parsed = JSON.parse(jsonStr);
-    const validQueries = parsed.queries
-      .filter(q => typeof q === 'string' && q.trim().length > 0)
-      .map(q => q.trim())
-      .slice(0, breadth);
-
-    if (validQueries.length === 0) {
-      throw new Error('No valid queries found in response');
-    }
-
-    return validQueries;
+    return queries.slice(0, breadth);
   } catch (e) {
-    console.error('\nError generating search queries:', e);
-    // Return simple variations of the original query
+    getLogger().error('\nError generating search queries:', e);
+    // Return simple variations of the original query. The user's query, not
+    // the multi-line brief built from it, since these go to the search engine as is
+    const { query: userQuery } = run.options;
     return [
-      query,
-      `${query} comparison`,
-      `${query} review`,
-      `${query} worth it`
+      userQuery,
+      `${userQuery} comparison`,
+      `${userQuery} review`,
+      `${userQuery} worth it`
     ].slice(0, breadth);
   }
 }
 
-async function processContents(query: string, contents: string[]): Promise<{
-  summary: string;
-  keyFindings: {
-    title: string;
-    details: string[];
-  }[];
-  sources: string[];
-}> {
+type ContentAnalysis = {
+  // Per-chunk summaries and findings, citing run-wide source ids
+  chunks: ChunkSummary[];
+  learnings: string[];
+  followUpQuestions: string[];
+};
+
+// Searches and chunk analyses in flight at the same time, by default
+const DefaultConcurrency = 4;
+
+// State shared by all levels of a research run
+type ResearchRun = {
+  options: ResearchOptions;
+  // Sources list shared by all levels, so citation ids are unique per run
+  sources: Source[];
+  // Bound the searches and the chunk analyses in flight; the scheduler
+  // additionally keeps each provider within its quota
+  searchLimit: ReturnType<typeof pLimit>;
+  analysisLimit: ReturnType<typeof pLimit>;
+  // Token budget of one analysis chunk, from the model's context window
+  chunkTokens: number;
+  // SimHash fingerprints of the documents analysed so far, to skip
+  // near-duplicates of them on later levels
+  fingerprints: bigint[];
+  // Documents the user provided, analysed on the first level
+  seeds: SearchDocument[];
+  // Passages of every analysed document, for grounding later prompts
+  index: VectorIndex;
+};
+
+// Helper function to shorten a document to its first few sentences, for prompts
+function excerpt(content: string, length = 300): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
+
+// Questions to look up in the index before generating follow-up queries, and
+// passages retrieved per question
+const GroundingQuestions = 3;
+const PassagesPerQuestion = 2;
+
+// Helper function to find what the documents gathered so far say about the
+// open questions, so follow-up queries go after what they leave unanswered
+async function groundingPassages(run: ResearchRun, questions: string[]): Promise<string> {
+  if (questions.length === 0 || run.index.size() === 0) {
+    return '';
+  }
   try {
-    console.log('\n📊 Analyzing search results...');
-    
-    // Split contents into smaller chunks to avoid token limits
-    const maxChunkSize = 15000;
-    const chunks: string[] = [];
-    let currentChunk = '';
-    
-    for (const content of contents) {
-      if (currentChunk.length + content.length > maxChunkSize) {
-        chunks.push(currentChunk);
-        currentChunk = content;
-      } else {
-        currentChunk += '\n\n' + content;
-      }
-    }
-    if (currentChunk) {
-      chunks.push(currentChunk);
-    }
-    
-    console.log(`Processing ${chunks.length} content chunks...`);
-    
-    // Process chunks sequentially to avoid rate limits
-    const chunkResults = [];
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      console.log(`\nProcessing chunk ${i + 1}/${chunks.length}...`);
-      
-      const prompt = `Analyze these search results about: "${query}"
+    const results = await Promise.all(
+      questions.slice(0, GroundingQuestions).map(q => run.index.search(q, PassagesPerQuestion)),
+    );
+    const passages = formatPassages(results.flat(), Math.floor(run.chunkTokens / 4));
+    return passages
+      ? `
+What the sources gathered so far say about these questions:
+${passages}
+
+Target what these passages leave unanswered rather than what they already answer.
+`
+      : '';
+  } catch (e) {
+    getLogger().error('\nError searching the index of gathered documents:', e);
+    return '';
+  }
+}
+
+// Helper function to report progress to the caller, if they asked for it
+function reportProgress(run: ResearchRun, progress: Omit<ResearchProgress, 'depth'>) {
+  run.options.onProgress?.({ ...progress, depth: run.options.depth });
+}
+
+// Helper function to run a step through the run's checkpoint, if it has one
+function checkpointStep<T>(
+  run: ResearchRun,
+  key: string,
+  fn: () => Promise<T>,
+  keep?: (value: T) => boolean,
+): Promise<T> {
+  return run.options.checkpoint ? run.options.checkpoint.step(key, fn, keep) : fn();
+}
+
+// Helper function to turn a document into metadata for the Sources section
+function toSource({ content, query, ...source }: SearchDocument): Source {
+  return source;
+}
+
+// Helper function to get the run-wide citation id of a document, adding it to
+// the Sources list the first time it is seen
+function registerSource(run: ResearchRun, document: SearchDocument): number {
+  const index = run.sources.findIndex(s => s.url === document.url);
+  if (index !== -1) {
+    return index + 1;
+  }
+  const source = toSource(document);
+  run.sources.push(source);
+  run.options.onSource?.(source, run.sources.length);
+  return run.sources.length;
+}
+
+// Helper function to get the share of a level's page limit of the i-th of
+// `queries` queries; the first ones get the remainder
+function queryShare(limit: number, queries: number, i: number): number {
+  return Math.floor(limit / queries) + (i < limit % queries ? 1 : 0);
+}
+
+// Helper function to keep only the first document seen for each URL
+function dedupeByUrl<T extends { url: string }>(items: T[]): T[] {
+  return items.filter((item, i, arr) => arr.findIndex(other => other.url === item.url) === i);
+}
+
+// The model's analysis of one chunk, citing documents by their position in the chunk
+type ChunkAnalysis = z.infer<typeof ChunkAnalysisSchema>;
+
+type AnalyzedChunk = {
+  pieces: DocumentPiece[];
+  // Missing when the analysis failed
+  analysis?: ChunkAnalysis;
+};
+
+// Helper function to label a piece for the analysis prompt; the publication
+// date lets the model tell current information from outdated
+function pieceHeader({ document, part, parts }: DocumentPiece): string {
+  const partLabel = parts > 1 ? `, part ${part} of ${parts}` : '';
+  const dateLabel = document.publishedAt ? `, published ${document.publishedAt.slice(0, 10)}` : '';
+  return `Source: ${document.title} (${document.url}${dateLabel}${partLabel})`;
+}
+
+// Analyses one chunk of document pieces. A failed chunk is logged and
+// skipped, so it doesn't sink the rest of the level.
+async function analyzeChunk(
+  query: string,
+  pieces: DocumentPiece[],
+  run: ResearchRun,
+  level: number,
+): Promise<AnalyzedChunk> {
+  // Pieces are numbered per chunk here and mapped to the run-wide ids of
+  // their documents once all chunks have been analysed
+  const searchResults = pieces
+    .map((piece, j) => `[${j + 1}] ${pieceHeader(piece)}\n\n${piece.text}`)
+    .join('\n\n---\n\n');
+
+  const prompt = `Analyze these search results about: "${query}"
 
 Search Results:
-${chunk}
+${searchResults}
 
 Create a comprehensive analysis with the following structure:
 {
@@ -163,148 +270,471 @@ Create a comprehensive analysis with the following structure:
     {
       "title": "Finding Category/Title",
       "details": [
-        "Specific detail or insight 1",
-        "Specific detail or insight 2"
+        "Specific detail or insight 1 [1]",
+        "Specific detail or insight 2 [2][3]"
       ]
     }
   ],
-  "sources": [
-    "Brief description of source 1",
-    "Brief description of source 2"
+  "learnings": [
+    "A concise, information-dense fact learned from the results"
+  ],
+  "followUpQuestions": [
+    "An open question the results raise that needs further research"
   ]
 }
 
 Make the analysis detailed but concise. Group related findings together.
+Every detail MUST end with citation markers like [1] or [2][3] naming the numbered search results that support it. Only include details that the search results actually support.
+Learnings should be specific (include entities, numbers and dates) so they can guide further research.
 IMPORTANT: Return ONLY the JSON object, no other text.`;
 
-      try {
-        // Use rate limiting and retries
-        const result = await limit(() => 
-          retry(async () => {
-            const response = await model.generateContent(prompt);
-            return response;
-          })
-        );
-        
-        const text = result.response.text();
-        console.log(`\nRaw response for chunk ${i + 1}:`, text);
-
-        const jsonStr = extractJSON(text);
-        if (!jsonStr) {
-          console.log(`No JSON found in response for chunk ${i + 1}, skipping...`);
-          continue;
-        }
-
-        const parsed = JSON.parse(jsonStr);
-        if (parsed.summary && parsed.keyFindings) {
-          chunkResults.push(parsed);
-        }
-
-        // Add delay between chunks to avoid rate limits
-        if (i < chunks.length - 1) {
-          await delay(2000);
-        }
-      } catch (e) {
-        console.error(`Error processing chunk ${i + 1}:`, e);
-        continue;
-      }
-    }
-    
-    if (chunkResults.length === 0) {
-      throw new Error('No valid results from any chunks');
-    }
-    
-    // Merge results from all chunks
-    const merged = {
-      summary: chunkResults.map(r => r.summary).join('\n\n'),
-      keyFindings: chunkResults.flatMap(r => r.keyFindings),
-      sources: chunkResults.flatMap(r => r.sources)
-    };
-    
-    // Deduplicate and clean up
-    return {
-      summary: merged.summary,
-      keyFindings: merged.keyFindings
-        .filter((f, i, arr) => 
-          arr.findIndex(g => g.title === f.title) === i
-        ),
-      sources: [...new Set(merged.sources)]
-    };
+  try {
+    const tokens = pieces.reduce((sum, piece) => sum + piece.tokens, 0);
+    getLogger().log(`\nAnalyzing ${pieces.length} pieces (${tokens} tokens): ${pieces.map(p => p.document.title).join(', ')}`);
+    // The prompt identifies the chunk, since it holds the query and the documents
+    const chunkKey = createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+    const analysis = await checkpointStep(run, `L${level}:chunk:${chunkKey}`, () =>
+      generateObject(ChunkAnalysisSchema, prompt)
+    );
+    return { pieces, analysis };
   } catch (e) {
-    console.error('\nError processing search results:', e);
+    getLogger().error(`Error analyzing chunk of ${pieces.length} pieces:`, e);
+    return { pieces };
+  }
+}
+
+// Merges the chunk analyses in chunk order, so source numbering and findings
+// don't depend on which analysis finished first. Every document in an
+// analysed chunk is added to the run-wide Sources list that citation markers
+// in the key findings refer to.
+function mergeChunkAnalyses(
+  run: ResearchRun,
+  level: number,
+  chunks: AnalyzedChunk[],
+  documents: SearchDocument[],
+): ContentAnalysis {
+  const chunkResults = chunks.flatMap(({ pieces, analysis }) => {
+    if (!analysis) return [];
+    const citationIds = new Map(
+      pieces.map((piece, j) => [j + 1, registerSource(run, piece.document)]),
+    );
+    const keyFindings = analysis.keyFindings.map((f): KeyFinding => ({
+      ...f,
+      details: f.details.map(detail => remapCitations(detail, citationIds).text),
+      level,
+    }));
+    const sourceIds = [...new Set(citationIds.values())];
+    return [{ ...analysis, sourceIds, keyFindings }];
+  });
+
+  if (chunkResults.length === 0) {
+    getLogger().error('\nError processing search results: no valid results from any chunks');
+    const sourceIds = documents.map(d => registerSource(run, d));
     return {
-      summary: 'Error analyzing results. Here are the raw findings:',
-      keyFindings: [{
-        title: 'Raw Results',
-        details: contents.map(c => c.substring(0, 200) + '...')
+      chunks: [{
+        level,
+        sourceIds,
+        summary: 'Error analyzing results. Here are the raw findings:',
+        keyFindings: [{
+          title: 'Raw Results',
+          details: documents.map((d, i) =>
+            `${d.content.substring(0, 200)}... [${sourceIds[i]}]`
+          ),
+          level,
+        }],
       }],
-      sources: ['Error processing sources']
+      learnings: [],
+      followUpQuestions: []
     };
   }
+
+  // Deduplicate and clean up
+  return {
+    chunks: chunkResults.map(({ summary, sourceIds, keyFindings }) => ({ level, sourceIds, summary, keyFindings })),
+    learnings: [...new Set(chunkResults.flatMap(r => r.learnings))],
+    followUpQuestions: [...new Set(chunkResults.flatMap(r => r.followUpQuestions))]
+  };
+}
+
+// Helper function to add the documents that made it into the Sources list to
+// the run's index. Indexing is best effort: the research goes on without it.
+async function indexDocuments(run: ResearchRun, documents: SearchDocument[]) {
+  const sourced = documents.flatMap(document => {
+    const index = run.sources.findIndex(s => s.url === document.url);
+    return index === -1 ? [] : [{ sourceId: index + 1, content: document.content }];
+  });
+  try {
+    const passages = await run.index.add(sourced);
+    if (passages > 0) {
+      getLogger().log(`\n🗂️ Indexed ${passages} passages from ${sourced.length} documents (${run.index.embedder})`);
+    }
+  } catch (e) {
+    getLogger().error('\nError indexing the documents:', e);
+  }
+}
+
+type LevelResult = {
+  level: number;
+  breadth: number;
+  searchQueries: string[];
+  durationMs: number;
+  analysis: ContentAnalysis;
+};
+
+// Runs one level of research, then recurses with the learnings and open
+// questions it produced until depth runs out. Breadth halves at each level.
+async function researchLevel({
+  run,
+  breadth,
+  depth,
+  level,
+  learnings,
+  followUpQuestions,
+}: {
+  run: ResearchRun;
+  breadth: number;
+  depth: number;
+  level: number;
+  learnings: string[];
+  followUpQuestions: string[];
+}): Promise<LevelResult[]> {
+  const startedAt = Date.now();
+  const { brief } = run.options;
+  // The brief carries the user's scope, priorities and exclusions into every prompt
+  const query = brief ? formatBrief(brief) : run.options.query;
+  getLogger().log(`\n📐 Research level ${level} (breadth: ${breadth}, remaining depth: ${depth})`);
+
+  // Generate search queries
+  reportProgress(run, { stage: 'generating-queries', level, completedQueries: 0, totalQueries: breadth });
+  const searchQueries = await generateSerpQueries(run, level, query, breadth, learnings, followUpQuestions);
+  
+  // Run the searches concurrently, and vet and analyse what each found as
+  // soon as it and the searches before it are done, so the analyses overlap
+  // the searches still running. Results are vetted in query order against the
+  // documents kept so far, so a page several queries returned is kept for the
+  // first query that returned it. Every query gets an equal share of the
+  // level's page limit for its best pages, plus what earlier queries left
+  // unused.
+  getLogger().log('\n🌐 Searching the web...');
+  let completedQueries = 0;
+  const searches = searchQueries.map(searchQuery => run.searchLimit(async () => {
+    reportProgress(run, {
+      stage: 'searching',
+      level,
+      completedQueries,
+      totalQueries: searchQueries.length,
+      currentQuery: searchQuery,
+    });
+    // A failed search is searched again on resume, one that found nothing isn't
+    let documents: SearchDocument[] = [];
+    try {
+      documents = await checkpointStep(
+        run,
+        `L${level}:search:${searchQuery}`,
+        () => searchWeb(searchQuery, depth, run.options.dateRange),
+      );
+    } catch {
+      // searchWeb reported the error; the level goes on without this query
+    }
+    completedQueries++;
+    return documents;
+  }));
+
+  // The user's seed documents are analysed first, without vetting. Pages
+  // that are already sources, e.g. of the run a dig extends, add nothing new.
+  const seeds = level === 1 ? run.seeds : [];
+  // Full chunks are analysed right away; pages of different searches share them
+  const chunker = createChunker(run.chunkTokens);
+  const analyze = (chunks: DocumentPiece[][]) => chunks.map(chunk =>
+    run.analysisLimit(() => analyzeChunk(query, chunk, run, level))
+  );
+  const allDocuments = [...seeds];
+  const analyses = analyze(chunker.add(seeds));
+  const vetting = { ...getVettingConfig(), dateRange: run.options.dateRange };
+  const handled = new Set([...seeds, ...run.sources].map(d => d.url));
+  const rejected: VettingResult['rejected'] = [];
+  let found = 0;
+  let allowance = 0;
+  for (const [i, search] of searches.entries()) {
+    const documents = dedupeByUrl(await search).filter(d => !handled.has(d.url));
+    documents.forEach(d => handled.add(d.url));
+    allowance += queryShare(vetting.maxDocuments, searches.length, i);
+    const result = vetDocuments(documents, { ...vetting, maxDocuments: allowance }, run.fingerprints);
+    allowance -= result.documents.length;
+    found += documents.length;
+    rejected.push(...result.rejected);
+    allDocuments.push(...result.documents);
+    analyses.push(...analyze(chunker.add(result.documents)));
+  }
+  analyses.push(...analyze(chunker.flush()));
+  if (rejected.length > 0) {
+    getLogger().log(`\n🧹 Kept ${allDocuments.length - seeds.length} of ${found} documents (${formatRejections(rejected)})`);
+  }
+  if (allDocuments.length === 0) {
+    getLogger().log(`No results found at level ${level}, stopping here.`);
+    return [];
+  }
+
+  reportProgress(run, {
+    stage: 'analyzing',
+    level,
+    completedQueries: searchQueries.length,
+    totalQueries: searchQueries.length,
+  });
+  getLogger().log(`\n📊 Analyzing search results in ${analyses.length} chunks...`);
+  const analysis = mergeChunkAnalyses(run, level, await Promise.all(analyses), allDocuments);
+  await indexDocuments(run, allDocuments);
+  analysis.learnings
+    .filter(learning => !learnings.includes(learning))
+    .forEach(learning => run.options.onLearning?.(learning, level));
+
+  const current: LevelResult = {
+    level,
+    breadth,
+    searchQueries,
+    durationMs: Date.now() - startedAt,
+    analysis,
+  };
+  const nextDepth = depth - 1;
+  if (nextDepth <= 0) {
+    return [current];
+  }
+
+  const deeper = await researchLevel({
+    run,
+    breadth: Math.ceil(breadth / 2),
+    depth: nextDepth,
+    level: level + 1,
+    learnings: [...new Set([...learnings, ...analysis.learnings])],
+    followUpQuestions: analysis.followUpQuestions,
+  });
+
+  return [current, ...deeper];
+}
+
+// Helper function to set up the state of a run
+function createRun(options: ResearchOptions, sources: Source[] = []): ResearchRun {
+  const concurrency = options.concurrency ?? DefaultConcurrency;
+  return {
+    options,
+    sources,
+    searchLimit: pLimit(concurrency),
+    analysisLimit: pLimit(concurrency),
+    chunkTokens: currentChunkBudget(),
+    fingerprints: [],
+    seeds: [],
+    index: options.index ?? createVectorIndex(),
+  };
 }
 
-export async function deepResearch(query: string, breadth: number, depth: number) {
+// Helper function to measure a run from its start time until now
+function timingsSince(startedAt: Date): ResearchTimings {
+  const finishedAt = new Date();
+  return {
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+  };
+}
+
+// Helper function to run the research, logging to the current logger
+async function runResearch(options: ResearchOptions): Promise<ResearchResult> {
+  const { query, breadth, depth } = options;
+  const startedAt = new Date();
+  const id = options.runId ?? createRunId(startedAt);
   try {
-    console.log('\n🚀 Starting deep research...');
-    console.log(`Query: "${query}"`);
-    console.log(`Breadth: ${breadth}, Depth: ${depth}`);
-
-    // For initial feedback questions, use minimal parameters
-    if (breadth === 1 && depth === 1) {
-      const feedbackQuestions = await generateFeedback({ query, numQuestions: 3 });
-      return {
-        query,
-        feedbackQuestions,
-        searchQueries: [],
-        report: {
-          executiveSummary: '',
-          keyFindings: [],
-          sources: []
-        }
-      };
+    getLogger().log('\n🚀 Starting deep research...');
+    getLogger().log(`Query: "${query}"`);
+    getLogger().log(`Breadth: ${breadth}, Depth: ${depth}`);
+    if (options.dateRange) {
+      getLogger().log(`Published: ${formatDateRange(options.dateRange)}`);
+    }
+    if (options.checkpoint) {
+      getLogger().log(`Checkpoint: ${options.checkpoint.id}`);
     }
 
-    // Generate search queries
-    const searchQueries = await generateSerpQueries(query, breadth);
-    
-    // Perform searches sequentially to avoid rate limits
-    console.log('\n🌐 Searching the web...');
-    const searchResults = [];
-    for (let i = 0; i < searchQueries.length; i++) {
-      const results = await searchWeb(searchQueries[i], depth);
-      searchResults.push(results);
-      
-      // Add delay between searches
-      if (i < searchQueries.length - 1) {
-        await delay(1000);
-      }
+    const run = createRun(options);
+    if (options.seeds) {
+      // Seeds that could not be read are tried again on resume
+      run.seeds = await checkpointStep(run, 'seeds', () => loadSeeds(options.seeds!), seeds => seeds.length > 0);
+      // Search results that copy a seed add nothing to it
+      run.fingerprints.push(...run.seeds.map(seed => simhash(seed.content)));
     }
-    
-    // Flatten and process results
-    const allContents = searchResults.flat();
-    const analysis = await processContents(query, allContents);
-    
+    const levels = await researchLevel({
+      run,
+      breadth,
+      depth,
+      level: 1,
+      learnings: [],
+      followUpQuestions: [],
+    });
+
+    // Merge the chunk analyses of every level into one report, then check
+    // how well the sources back its findings
+    const reportQuery = options.brief ? formatBrief(options.brief) : query;
+    const chunks = levels.flatMap(l => l.analysis.chunks);
+    const synthesis = await synthesizeReport({
+      query: reportQuery,
+      chunks,
+      sourceCount: run.sources.length,
+      maxTokens: run.chunkTokens,
+      checkpoint: options.checkpoint,
+    });
+    const { keyFindings, disputes } = await analyzeConfidence({
+      query: reportQuery,
+      findings: synthesis.keyFindings,
+      sources: run.sources,
+      maxTokens: run.chunkTokens,
+      checkpoint: options.checkpoint,
+    });
+
+    reportProgress(run, {
+      stage: 'complete',
+      level: levels.length,
+      completedQueries: 0,
+      totalQueries: 0,
+    });
+
     // Format the final report
     return {
+      id,
       query,
-      searchQueries,
+      brief: options.brief,
+      dateRange: options.dateRange,
+      seeds: options.seeds,
+      searchQueries: levels.flatMap(l => l.searchQueries),
+      levels: levels.map(({ analysis, ...level }) => level),
+      learnings: [...new Set(levels.flatMap(l => l.analysis.learnings))],
       report: {
-        executiveSummary: analysis.summary,
-        keyFindings: analysis.keyFindings,
-        sources: analysis.sources
-      }
+        executiveSummary: synthesis.summary,
+        keyFindings,
+        sources: run.sources,
+        disputes,
+        ...(chunks.length > 1 ? { appendix: chunks } : {}),
+      },
+      timings: timingsSince(startedAt)
     };
   } catch (e) {
-    console.error('\n❌ Error in deep research:', e);
+    getLogger().error('\n❌ Error in deep research:', e);
     return {
+      id,
       query,
-      error: `Research failed: ${e.message}`,
+      brief: options.brief,
+      dateRange: options.dateRange,
+      seeds: options.seeds,
+      error: `Research failed: ${(e as Error).message}`,
       searchQueries: [],
+      levels: [],
+      learnings: [],
       report: {
         executiveSummary: 'Research could not be completed due to an error.',
         keyFindings: [],
         sources: []
-      }
+      },
+      timings: timingsSince(startedAt)
     };
   }
 }
+
+export async function deepResearch(options: ResearchOptions): Promise<ResearchResult> {
+  // Everything the run calls, searches and model calls included, logs to its logger
+  return options.logger ? withLogger(options.logger, () => runResearch(options)) : runResearch(options);
+}
+
+// Search queries of a dig, by default
+const DefaultDigBreadth = 3;
+
+// Researches one topic of a finished run further: one more level of searches
+// aimed at the topic, whose findings are synthesized into the report together
+// with the earlier ones. New sources are numbered after the existing ones, so
+// earlier citations stay valid. The sections of a long-form report are
+// dropped, since they don't cover what the dig found; write them again with
+// writeReport. Returns the result unchanged when the dig finds nothing new.
+export async function extendResearch(
+  result: ResearchResult,
+  {
+    topic,
+    breadth = DefaultDigBreadth,
+    concurrency,
+    index,
+  }: {
+    topic: string;
+    breadth?: number;
+    concurrency?: number;
+    // The run's index; the documents the dig analyses are added to it
+    index?: VectorIndex;
+  },
+): Promise<ResearchResult> {
+  const startedAt = new Date();
+  getLogger().log(`\n⛏️ Digging into: ${topic}`);
+  const run = createRun(
+    {
+      runId: result.id,
+      query: result.query,
+      brief: result.brief,
+      dateRange: result.dateRange,
+      breadth,
+      depth: 1,
+      concurrency,
+      index,
+    },
+    [...result.report.sources],
+  );
+
+  // The topic is the one open question the queries are generated for
+  const [dig] = await researchLevel({
+    run,
+    breadth,
+    depth: 1,
+    level: result.levels.length + 1,
+    learnings: result.learnings,
+    followUpQuestions: [topic],
+  });
+  if (!dig) {
+    return result;
+  }
+
+  // Synthesized from the report's chunk analyses, or from the report itself
+  // when it came from a single chunk
+  const reportQuery = result.brief ? formatBrief(result.brief) : result.query;
+  const previous: ChunkSummary[] = result.report.appendix ?? [{
+    level: 1,
+    sourceIds: result.report.sources.map((_, i) => i + 1),
+    summary: result.report.executiveSummary,
+    keyFindings: result.report.keyFindings,
+  }];
+  const chunks = [...previous, ...dig.analysis.chunks];
+  const synthesis = await synthesizeReport({
+    query: reportQuery,
+    chunks,
+    sourceCount: run.sources.length,
+    maxTokens: run.chunkTokens,
+  });
+  const { keyFindings, disputes } = await analyzeConfidence({
+    query: reportQuery,
+    findings: synthesis.keyFindings,
+    sources: run.sources,
+    maxTokens: run.chunkTokens,
+  });
+
+  const { analysis, ...level } = dig;
+  const timings = timingsSince(startedAt);
+  return {
+    ...result,
+    searchQueries: [...result.searchQueries, ...level.searchQueries],
+    levels: [...result.levels, { ...level, topic, startedAt: timings.startedAt }],
+    learnings: [...new Set([...result.learnings, ...analysis.learnings])],
+    report: {
+      executiveSummary: synthesis.summary,
+      keyFindings,
+      sources: run.sources,
+      disputes,
+      appendix: chunks,
+    },
+    timings: {
+      startedAt: result.timings.startedAt,
+      finishedAt: timings.finishedAt,
+      durationMs: result.timings.durationMs + timings.durationMs,
+    },
+  };
+}
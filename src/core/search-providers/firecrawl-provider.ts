@@ -0,0 +1,61 @@
+import FirecrawlApp from '@mendable/firecrawl-js';
+import { compact } from 'lodash-es';
+import type { DateRange } from '../types';
+import type { SearchDocument, SearchOptions, SearchProvider } from './types';
+
+// Helper function to turn a date range into Google's custom date range
+// filter, e.g. "cdr:1,cd_min:1/1/2025,cd_max:6/30/2025"
+function dateFilter({ since, until }: DateRange = {}): string | undefined {
+  if (!since && !until) return undefined;
+  const format = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return `${month}/${day}/${year}`;
+  };
+  return ['cdr:1', since && `cd_min:${format(since)}`, until && `cd_max:${format(until)}`].filter(Boolean).join(',');
+}
+
+export function createFirecrawlProvider({
+  apiKey = process.env.FIRECRAWL_KEY,
+  baseUrl = process.env.FIRECRAWL_BASE_URL,
+}: {
+  apiKey?: string;
+  baseUrl?: string;
+} = {}): SearchProvider {
+  // Initialize Firecrawl with optional API key and optional base url
+  const firecrawl = new FirecrawlApp({
+    apiKey: apiKey ?? '',
+    apiUrl: baseUrl,
+  });
+
+  return {
+    name: 'firecrawl',
+    endpoint: baseUrl,
+    async search(query: string, { limit, timeout = 30000, dateRange }: SearchOptions) {
+      const result = await firecrawl.search(query, {
+        timeout,
+        limit,
+        tbs: dateFilter(dateRange),
+        scrapeOptions: { formats: ['markdown'] },
+      });
+
+      const fetchedAt = new Date().toISOString();
+      return compact(result.data.map((item): SearchDocument | null => {
+        const content = item.markdown;
+        const url = item.url ?? item.metadata?.sourceURL;
+        if (!content || !url) return null;
+
+        return {
+          url,
+          title: item.title ?? item.metadata?.title ?? url,
+          description: item.description ?? item.metadata?.description,
+          author: item.metadata?.author,
+          siteName: item.metadata?.ogSiteName,
+          publishedAt: item.metadata?.publishedTime,
+          fetchedAt,
+          content,
+          query,
+        };
+      }));
+    },
+  };
+}
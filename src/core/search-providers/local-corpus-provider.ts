@@ -0,0 +1,88 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import { basename, extname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { StopWords } from '../../utils/stop-words';
+import type { SearchOptions, SearchProvider } from './types';
+
+const CorpusExtensions = ['.md', '.markdown', '.txt'];
+
+// split text into lowercase search terms
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 1 && !StopWords.has(term));
+}
+
+// Helper function to list all corpus files below a directory
+async function listFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files = await Promise.all(entries.map(async entry => {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return listFiles(path);
+    }
+    return CorpusExtensions.includes(extname(entry.name).toLowerCase()) ? [path] : [];
+  }));
+  return files.flat();
+}
+
+// Helper function to use the first markdown heading as the title, if any
+function extractTitle(content: string, path: string): string {
+  const heading = content.match(/^#\s+(.+)$/m);
+  return heading ? heading[1]!.trim() : basename(path, extname(path));
+}
+
+// score a document for a query: log-scaled term frequency, with matches in
+// the title counting extra
+export function scoreDocument(terms: string[], title: string, content: string): number {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(content)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  const titleTerms = new Set(tokenize(title));
+
+  return [...new Set(terms)].reduce((score, term) => {
+    const count = counts.get(term) ?? 0;
+    const titleBonus = titleTerms.has(term) ? 2 : 0;
+    return score + (count > 0 ? 1 + Math.log(count) : 0) + titleBonus;
+  }, 0);
+}
+
+// Searches a directory of markdown and text files, so research can run over
+// internal documents without any network access
+export function createLocalCorpusProvider({
+  directory = process.env.LOCAL_CORPUS_DIR ?? 'corpus',
+}: {
+  directory?: string;
+} = {}): SearchProvider {
+  const root = resolve(directory);
+
+  return {
+    name: 'local',
+    endpoint: root,
+    async search(query: string, { limit }: SearchOptions) {
+      const terms = tokenize(query);
+      const files = await listFiles(root);
+
+      const scored = await Promise.all(files.map(async path => {
+        const [content, info] = await Promise.all([readFile(path, 'utf8'), stat(path)]);
+        const title = extractTitle(content, path);
+        return { path, title, content, modifiedAt: info.mtime, score: scoreDocument(terms, title, content) };
+      }));
+
+      return scored
+        .filter(doc => doc.score > 0 && doc.content.trim().length > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(doc => ({
+          url: pathToFileURL(doc.path).href,
+          title: doc.title,
+          description: `Local file, last modified ${doc.modifiedAt.toISOString().split('T')[0]}`,
+          fetchedAt: new Date().toISOString(),
+          content: doc.content,
+          query,
+        }));
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { compact } from 'lodash-es';
+import { extractTitle, htmlToText } from '../../utils/html';
+import { getLogger } from '../../utils/logger';
+import { extractPublishDate } from '../../utils/publish-date';
+import { requestError } from '../../utils/scheduler';
+import type { DateRange } from '../types';
+import type { SearchDocument, SearchOptions, SearchProvider } from './types';
+
+const DefaultBaseUrl = 'http://localhost:8080';
+
+type SearxngResult = {
+  url: string;
+  title?: string;
+  content?: string;
+  publishedDate?: string | null;
+};
+
+// SearxNG only filters by how recent results are, so the smallest of its time
+// ranges that still reaches back to the start of the range is used
+const TimeRanges = [
+  { name: 'day', days: 1 },
+  { name: 'week', days: 7 },
+  { name: 'month', days: 31 },
+  { name: 'year', days: 366 },
+];
+
+// Helper function to pick the time range for a date range, if one covers it
+function timeRange({ since }: DateRange = {}): string | undefined {
+  if (!since) return undefined;
+  const days = (Date.now() - Date.parse(since)) / (24 * 60 * 60 * 1000);
+  return TimeRanges.find(range => days <= range.days)?.name;
+}
+
+// Helper function to fetch a page and convert it to text, with a timeout
+async function fetchPage(url: string, timeout: number) {
+  const response = await fetch(url, { signal: AbortSignal.timeout(timeout) });
+  if (!response.ok) {
+    throw new Error(`Fetching ${url} failed (${response.status})`);
+  }
+  const html = await response.text();
+  return { title: extractTitle(html), publishedAt: extractPublishDate(html), content: htmlToText(html) };
+}
+
+// Searches through a self-hosted SearxNG instance (the JSON output format must
+// be enabled in its settings.yml), then fetches each result page since
+// SearxNG itself only returns snippets.
+export function createSearxngProvider({
+  baseUrl = process.env.SEARXNG_BASE_URL ?? DefaultBaseUrl,
+}: {
+  baseUrl?: string;
+} = {}): SearchProvider {
+  return {
+    name: 'searxng',
+    endpoint: baseUrl,
+    async search(query: string, { limit, timeout = 30000, dateRange }: SearchOptions) {
+      const url = new URL('/search', baseUrl);
+      url.searchParams.set('q', query);
+      url.searchParams.set('format', 'json');
+      const range = timeRange(dateRange);
+      if (range) {
+        url.searchParams.set('time_range', range);
+      }
+
+      const response = await fetch(url, { signal: AbortSignal.timeout(timeout) });
+      if (!response.ok) {
+        throw await requestError('SearxNG', response);
+      }
+
+      const data = await response.json();
+      const results: SearxngResult[] = (data.results ?? []).slice(0, limit);
+
+      const documents = await Promise.all(results.map(async (result): Promise<SearchDocument | null> => {
+        let page: { title?: string; publishedAt?: string; content: string } = { content: result.content ?? '' };
+        try {
+          page = await fetchPage(result.url, timeout);
+        } catch (e) {
+          // Fall back to the snippet rather than losing the result
+          getLogger().log(`Could not fetch ${result.url}, using the search snippet instead`);
+        }
+        if (!page.content) return null;
+
+        return {
+          url: result.url,
+          title: result.title || page.title || result.url,
+          description: result.content,
+          publishedAt: page.publishedAt ?? result.publishedDate ?? undefined,
+          fetchedAt: new Date().toISOString(),
+          content: page.content,
+          query,
+        };
+      }));
+
+      return compact(documents);
+    },
+  };
+}
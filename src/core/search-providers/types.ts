@@ -0,0 +1,48 @@
+import type { DateRange } from '../types';
+
+// A scraped search result, with the metadata needed to cite it later
+export interface SearchDocument {
+  url: string;
+  title: string;
+  description?: string;
+  // Publication metadata, when the page exposes it
+  author?: string;
+  siteName?: string;
+  publishedAt?: string;
+  // ISO timestamp of when the page was fetched
+  fetchedAt: string;
+  content: string;
+  // The search query that surfaced this document
+  query: string;
+  // Quality score from 0 to 1, from the domain, recency and content, once vetted
+  score?: number;
+}
+
+export interface SearchOptions {
+  // Maximum number of documents to return
+  limit: number;
+  // Request timeout in milliseconds
+  timeout?: number;
+  // Period the results should be published in, for providers that can filter by date
+  dateRange?: DateRange;
+}
+
+// A search backend. Providers return full document contents, not just
+// snippets, since the content is what gets analysed.
+export interface SearchProvider {
+  readonly name: string;
+  // Where the results come from, like the server URL or corpus directory, for
+  // providers that can be pointed elsewhere; cached results are kept apart by it
+  readonly endpoint?: string;
+  search(query: string, options: SearchOptions): Promise<SearchDocument[]>;
+}
+
+export type SearchProviderName = 'firecrawl' | 'searxng' | 'local';
+
+export interface SearchProviderConfig {
+  provider: SearchProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+  // Directory searched by the local corpus provider
+  directory?: string;
+}
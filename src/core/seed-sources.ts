@@ -0,0 +1,149 @@
+import { readFile } from 'fs/promises';
+import { basename, extname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { extractText, getMeta } from 'unpdf';
+import { trimPrompt } from '../models/providers/ai-models';
+import { extractTitle, htmlToText } from '../utils/html';
+import { getLogger } from '../utils/logger';
+import { extractPublishDate, normalizeDate } from '../utils/publish-date';
+import type { SearchDocument } from './search-providers/types';
+import type { SeedSources } from './types';
+
+export type SeedFormat = 'markdown' | 'text' | 'html' | 'pdf';
+
+// Seeds are analysed in full, in chunks like search results, up to this many
+// tokens
+const MaxSeedTokens = 100_000;
+const FetchTimeout = 30_000;
+
+const FormatsByExtension: Record<string, SeedFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.html': 'html',
+  '.htm': 'html',
+  '.pdf': 'pdf',
+};
+
+// Helper function to tell the format of a seed from its content type, or
+// else its file extension
+function formatOf(location: string, contentType?: string): SeedFormat | undefined {
+  const type = contentType?.split(';')[0]?.trim().toLowerCase();
+  if (type === 'application/pdf') return 'pdf';
+  if (type === 'text/html' || type === 'application/xhtml+xml') return 'html';
+  if (type === 'text/markdown') return 'markdown';
+  const byExtension = FormatsByExtension[extname(location.split(/[?#]/)[0]!).toLowerCase()];
+  if (byExtension) return byExtension;
+  return type?.startsWith('text/') ? 'text' : undefined;
+}
+
+// Helper function to turn a PDF's "D:20250314093000Z" style date into a timestamp
+function pdfDate(value: unknown): string | undefined {
+  const match = typeof value === 'string' ? value.match(/^D:(\d{4})(\d{2})?(\d{2})?/) : null;
+  return match ? normalizeDate(`${match[1]}-${match[2] ?? '01'}-${match[3] ?? '01'}`) : undefined;
+}
+
+// Helper function to extract the text and metadata of a PDF
+async function readPdf(data: Uint8Array) {
+  // pdf.js takes ownership of the buffer it is given, so each call gets a copy
+  const [{ text }, { info }] = await Promise.all([
+    extractText(new Uint8Array(data)),
+    getMeta(new Uint8Array(data)).catch(() => ({ info: {} as Record<string, unknown> })),
+  ]);
+  const title = typeof info.Title === 'string' && info.Title.trim() ? info.Title.trim() : undefined;
+  const author = typeof info.Author === 'string' && info.Author.trim() ? info.Author.trim() : undefined;
+  return {
+    title,
+    author,
+    publishedAt: pdfDate(info.CreationDate),
+    // Pages become paragraphs, so the text splitter can split between them
+    content: text.map(page => page.trim()).filter(Boolean).join('\n\n'),
+  };
+}
+
+// parse the contents of a seed into the title, metadata and text to analyse
+export async function parseSeed(data: Uint8Array, format: SeedFormat): Promise<{
+  title?: string;
+  author?: string;
+  publishedAt?: string;
+  content: string;
+}> {
+  if (format === 'pdf') {
+    return readPdf(data);
+  }
+  const text = new TextDecoder().decode(data);
+  if (format === 'html') {
+    return { title: extractTitle(text), publishedAt: extractPublishDate(text), content: htmlToText(text) };
+  }
+  const heading = format === 'markdown' ? text.match(/^#\s+(.+)$/m)?.[1]?.trim() : undefined;
+  return { title: heading, publishedAt: extractPublishDate(text), content: text.trim() };
+}
+
+// Helper function to build the document of a seed, named after its location
+// when it has no title of its own
+function seedDocument(
+  url: string,
+  fallbackTitle: string,
+  parsed: Awaited<ReturnType<typeof parseSeed>>,
+): SearchDocument {
+  const content = trimPrompt(parsed.content, MaxSeedTokens);
+  if (content.length < parsed.content.length) {
+    getLogger().log(`Seed ${url} is too long to analyse in full, using its first ${MaxSeedTokens} tokens`);
+  }
+  return {
+    url,
+    title: parsed.title || fallbackTitle,
+    author: parsed.author,
+    publishedAt: parsed.publishedAt,
+    fetchedAt: new Date().toISOString(),
+    content,
+    query: 'seed',
+  };
+}
+
+// read a local Markdown, text, HTML or PDF file as a seed document
+export async function loadSeedFile(path: string): Promise<SearchDocument> {
+  const format = formatOf(path);
+  if (!format) {
+    throw new Error(`Unsupported seed file ${path}, expected one of ${Object.keys(FormatsByExtension).join(', ')}`);
+  }
+  const data = await readFile(path);
+  const parsed = await parseSeed(data, format);
+  return seedDocument(pathToFileURL(resolve(path)).href, basename(path, extname(path)), parsed);
+}
+
+// fetch a web page or PDF as a seed document
+export async function loadSeedUrl(url: string): Promise<SearchDocument> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(FetchTimeout) });
+  if (!response.ok) {
+    throw new Error(`Fetching ${url} failed (${response.status})`);
+  }
+  // Pages served without a recognizable type are most likely HTML
+  const format = formatOf(url, response.headers.get('content-type') ?? undefined) ?? 'html';
+  const parsed = await parseSeed(new Uint8Array(await response.arrayBuffer()), format);
+  return seedDocument(url, url, parsed);
+}
+
+// load all seed URLs and files. A seed that can't be read is logged and
+// skipped, so one broken link doesn't stop the research.
+export async function loadSeeds({ urls = [], files = [] }: SeedSources): Promise<SearchDocument[]> {
+  getLogger().log(`\n🌱 Reading ${urls.length + files.length} seed sources...`);
+  const loads = [
+    ...files.map(path => ({ location: path, load: () => loadSeedFile(path) })),
+    ...urls.map(url => ({ location: url, load: () => loadSeedUrl(url) })),
+  ];
+  const documents = await Promise.all(loads.map(async ({ location, load }) => {
+    try {
+      const document = await load();
+      if (!document.content) {
+        getLogger().error(`\n⚠️ Seed ${location} has no text to analyse, skipping it`);
+        return [];
+      }
+      return [document];
+    } catch (e) {
+      getLogger().error(`\n⚠️ Could not read seed ${location}:`, e);
+      return [];
+    }
+  }));
+  return documents.flat();
+}
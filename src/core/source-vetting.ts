@@ -0,0 +1,244 @@
+import { createHash } from 'crypto';
+import { getLogger } from '../utils/logger';
+import { hostOf } from '../utils/url';
+import type { SearchDocument } from './search-providers/types';
+import type { DateRange } from './types';
+
+export interface VettingConfig {
+  // Only documents from these domains (and their subdomains) are used, when set
+  allowDomains: string[];
+  // Documents from these domains are never used
+  denyDomains: string[];
+  // Reputation from 0 to 1 by domain, on top of the built-in ones
+  reputations: Record<string, number>;
+  // Documents passed to analysis per research level, best scores first
+  maxDocuments: number;
+  // Documents scoring lower are dropped
+  minScore: number;
+  // SimHash fingerprints differing in at most this many of 64 bits are near-duplicates
+  duplicateDistance: number;
+  // Pages dated outside this period are dropped, and recency is measured from
+  // its end; set per run
+  dateRange?: DateRange;
+}
+
+export type RejectionReason = 'denied' | 'not-allowed' | 'out-of-range' | 'duplicate' | 'low-score' | 'over-limit';
+
+export interface VettingResult {
+  // The documents to analyse, scored, in the order they were found
+  documents: SearchDocument[];
+  rejected: { document: SearchDocument; reason: RejectionReason }[];
+}
+
+// Words per shingle for near-duplicate detection
+const ShingleSize = 3;
+const DayMs = 24 * 60 * 60 * 1000;
+// Used for domains without a known reputation, and pages without a date
+const NeutralScore = 0.5;
+
+// Built-in domain reputations; suffixes like .gov apply to every domain under them
+const DefaultReputations: Record<string, number> = {
+  gov: 0.9,
+  edu: 0.85,
+  'nature.com': 0.9,
+  'arxiv.org': 0.85,
+  'reuters.com': 0.85,
+  'apnews.com': 0.85,
+  'wikipedia.org': 0.8,
+  'github.com': 0.7,
+  'stackoverflow.com': 0.7,
+  'medium.com': 0.4,
+  'quora.com': 0.3,
+  'pinterest.com': 0.1,
+};
+
+// whether a host is the domain or one of its subdomains
+export function matchesDomain(host: string, domain: string): boolean {
+  const normalized = domain.toLowerCase().replace(/^\*?\./, '').replace(/^www\./, '');
+  return host === normalized || host.endsWith(`.${normalized}`);
+}
+
+// a 64-bit SimHash of the word shingles of a text. Texts that share most of
+// their shingles, like syndicated copies of an article, get fingerprints
+// that differ in only a few bits.
+export function simhash(text: string): bigint {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const weights = new Array<number>(64).fill(0);
+  const shingles = Math.max(1, words.length - ShingleSize + 1);
+  for (let i = 0; i < shingles; i++) {
+    const digest = createHash('md5').update(words.slice(i, i + ShingleSize).join(' ')).digest();
+    const halves = [digest.readUInt32BE(0), digest.readUInt32BE(4)];
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (halves[bit >> 5]! >>> (bit & 31)) & 1;
+      weights[bit]! += set ? 1 : -1;
+    }
+  }
+  return weights.reduce((hash, weight, bit) => (weight > 0 ? hash | (1n << BigInt(bit)) : hash), 0n);
+}
+
+// the number of bits two fingerprints differ in
+export function hammingDistance(a: bigint, b: bigint): number {
+  let x = a ^ b;
+  let count = 0;
+  while (x) {
+    x &= x - 1n;
+    count++;
+  }
+  return count;
+}
+
+// Helper function to look up the reputation of a host; the most specific
+// configured domain wins
+function reputationOf(host: string, reputations: Record<string, number>): number {
+  const parts = host.split('.');
+  for (let i = 0; i < parts.length; i++) {
+    const domain = parts.slice(i).join('.');
+    const reputation = reputations[domain] ?? DefaultReputations[domain];
+    if (reputation !== undefined) return reputation;
+  }
+  return NeutralScore;
+}
+
+// Helper function to score how recent a page is: 1 for new pages, halving
+// every year, down to 0.1
+function recencyOf(publishedAt: string | undefined, now: number): number {
+  const published = publishedAt ? Date.parse(publishedAt) : NaN;
+  if (Number.isNaN(published)) return NeutralScore;
+  const years = Math.max(0, now - published) / (365 * DayMs);
+  return Math.max(0.1, 0.5 ** years);
+}
+
+// Helper function to score the content: longer pages score higher up to
+// about 800 words, and repetitive keyword-stuffed text is penalized
+function qualityOf(content: string): number {
+  const words = content.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length === 0) return 0;
+  const length = Math.min(1, words.length / 800);
+  // Prose of this length uses well over a quarter distinct words
+  const distinct = new Set(words).size / words.length;
+  return length * (distinct < 0.25 && words.length > 100 ? 0.3 : 1);
+}
+
+// Helper function to check whether a page is dated outside the date range;
+// undated pages are given the benefit of the doubt
+function outOfRange(publishedAt: string | undefined, { since, until }: DateRange = {}): boolean {
+  // Compare the dates only, so a page from any time on the last day is in range
+  const date = publishedAt?.slice(0, 10);
+  if (!date) return false;
+  return (since !== undefined && date < since) || (until !== undefined && date > until);
+}
+
+// score a document from 0 to 1 on domain reputation, recency and content quality
+export function scoreDocument(document: SearchDocument, config: VettingConfig, now = Date.now()): number {
+  // Research into a past period shouldn't penalize pages for being from it
+  const until = config.dateRange?.until ? Date.parse(config.dateRange.until) : NaN;
+  const score =
+    0.4 * reputationOf(hostOf(document.url) ?? '', config.reputations) +
+    0.3 * recencyOf(document.publishedAt, Number.isNaN(until) ? now : Math.min(now, until)) +
+    0.3 * qualityOf(document.content);
+  return Math.round(score * 100) / 100;
+}
+
+// Filters the documents of a research level before analysis: drops denied
+// and not allowed domains, pages dated outside the date range, and near-duplicates of documents seen earlier in
+// the run, then keeps the best scoring ones. `seen` holds the fingerprints
+// of the documents kept so far and is updated with the new ones.
+export function vetDocuments(
+  documents: SearchDocument[],
+  config: VettingConfig,
+  seen: bigint[],
+  now = Date.now(),
+): VettingResult {
+  const rejected: VettingResult['rejected'] = [];
+  const candidates: { document: SearchDocument; index: number; fingerprint: bigint }[] = [];
+  documents.forEach((document, index) => {
+    const host = hostOf(document.url) ?? '';
+    if (config.denyDomains.some(d => matchesDomain(host, d))) {
+      rejected.push({ document, reason: 'denied' });
+    } else if (config.allowDomains.length > 0 && !config.allowDomains.some(d => matchesDomain(host, d))) {
+      rejected.push({ document, reason: 'not-allowed' });
+    } else if (outOfRange(document.publishedAt, config.dateRange)) {
+      rejected.push({ document, reason: 'out-of-range' });
+    } else {
+      const score = scoreDocument(document, config, now);
+      candidates.push({ document: { ...document, score }, index, fingerprint: simhash(document.content) });
+    }
+  });
+
+  // Best first, so the better of two near-duplicates is the one kept
+  candidates.sort((a, b) => b.document.score! - a.document.score! || a.index - b.index);
+  const kept: typeof candidates = [];
+  for (const candidate of candidates) {
+    if (seen.some(fingerprint => hammingDistance(fingerprint, candidate.fingerprint) <= config.duplicateDistance)) {
+      rejected.push({ document: candidate.document, reason: 'duplicate' });
+    } else if (candidate.document.score! < config.minScore) {
+      rejected.push({ document: candidate.document, reason: 'low-score' });
+    } else if (kept.length >= config.maxDocuments) {
+      rejected.push({ document: candidate.document, reason: 'over-limit' });
+    } else {
+      kept.push(candidate);
+      seen.push(candidate.fingerprint);
+    }
+  }
+
+  // Analyse in search order, so source numbering doesn't depend on scores
+  kept.sort((a, b) => a.index - b.index);
+  return { documents: kept.map(c => c.document), rejected };
+}
+
+// summarize why documents were rejected, e.g. "2 duplicate, 1 denied"
+export function formatRejections(rejected: VettingResult['rejected']): string {
+  const counts = new Map<RejectionReason, number>();
+  rejected.forEach(({ reason }) => counts.set(reason, (counts.get(reason) ?? 0) + 1));
+  return [...counts].map(([reason, count]) => `${count} ${reason}`).join(', ');
+}
+
+// Helper function to read a comma-separated list from the environment
+function listFromEnv(name: string): string[] {
+  return (process.env[name] ?? '').split(',').map(s => s.trim()).filter(Boolean);
+}
+
+// Helper function to read a non-negative number from the environment; values
+// that aren't one are reported and the fallback is used
+function numberFromEnv(name: string, fallback: number): number {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+  const n = Number(value);
+  if (Number.isFinite(n) && n >= 0) return n;
+  getLogger().warn(`⚠️ ${name} must be a non-negative number, got "${value}"; using ${fallback}`);
+  return fallback;
+}
+
+// read the vetting config from the environment: SOURCE_ALLOWLIST and
+// SOURCE_DENYLIST (comma-separated domains), SOURCE_REPUTATION
+// ("example.com=0.9,spam.example=0.1"), SOURCE_MAX_PER_LEVEL and SOURCE_MIN_SCORE
+export function vettingConfigFromEnv(): VettingConfig {
+  const reputations: Record<string, number> = {};
+  for (const entry of listFromEnv('SOURCE_REPUTATION')) {
+    const [domain, value] = entry.split('=').map(s => s.trim());
+    const reputation = Number(value);
+    if (domain && Number.isFinite(reputation)) {
+      reputations[domain.toLowerCase()] = Math.min(1, Math.max(0, reputation));
+    }
+  }
+  return {
+    allowDomains: listFromEnv('SOURCE_ALLOWLIST'),
+    denyDomains: listFromEnv('SOURCE_DENYLIST'),
+    reputations,
+    maxDocuments: Math.floor(numberFromEnv('SOURCE_MAX_PER_LEVEL', 20)),
+    minScore: numberFromEnv('SOURCE_MIN_SCORE', 0.2),
+    duplicateDistance: 3,
+  };
+}
+
+let defaultConfig: VettingConfig | undefined;
+
+// the vetting config used by the research engine, read from the environment on first use
+export function getVettingConfig(): VettingConfig {
+  defaultConfig ??= vettingConfigFromEnv();
+  return defaultConfig;
+}
+
+export function setVettingConfig(config: VettingConfig) {
+  defaultConfig = config;
+}
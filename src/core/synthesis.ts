@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { generateObject } from '../models/generate-object';
+import { countTokens } from '../models/providers/ai-models';
+import { remapCitations } from '../utils/citations';
+import { hashText } from '../utils/cache';
+import { getLogger } from '../utils/logger';
+import type { Checkpoint } from './checkpoint';
+import type { ChunkSummary, KeyFinding } from './types';
+
+// A summary with findings, citing sources by their run-wide ids: either a
+// chunk's analysis or the synthesis of several of them
+export interface PartialSynthesis {
+  summary: string;
+  keyFindings: KeyFinding[];
+}
+
+const SynthesisSchema = z.object({
+  executiveSummary: z.string().min(1),
+  keyFindings: z.array(z.object({
+    title: z.string().min(1),
+    details: z.array(z.string()).min(1),
+    // Ids of the input findings merged into this one, like "F3"
+    mergedFrom: z.array(z.string()).default([]),
+  })).min(1),
+});
+
+// Helper function to merge findings sharing a title into one finding, keeping
+// the earliest level
+function mergeFindings(findings: KeyFinding[]): KeyFinding[] {
+  const merged: KeyFinding[] = [];
+  for (const finding of findings) {
+    const existing = merged.find(f => f.title === finding.title);
+    if (existing) {
+      existing.details = [...new Set([...existing.details, ...finding.details])];
+      if (finding.level !== undefined && (existing.level === undefined || finding.level < existing.level)) {
+        existing.level = finding.level;
+      }
+    } else {
+      merged.push({ ...finding, details: [...new Set(finding.details)] });
+    }
+  }
+  return merged;
+}
+
+// Helper function to concatenate partials, when there is nothing to
+// synthesize or the model failed
+function concatenate(partials: PartialSynthesis[]): PartialSynthesis {
+  return {
+    summary: partials.map(p => p.summary).join('\n\n'),
+    keyFindings: mergeFindings(partials.flatMap(p => p.keyFindings)),
+  };
+}
+
+// Helper function to write partials as prompt input, numbering their findings
+// F1, F2, ... across all partials
+function formatPartials(partials: PartialSynthesis[]): string {
+  let id = 1;
+  return partials.map((partial, i) => {
+    const findings = partial.keyFindings.map(finding =>
+      `F${id++}. ${finding.title}\n${finding.details.map(d => `  - ${d}`).join('\n')}`,
+    );
+    return `=== Partial analysis ${i + 1} ===\nSummary: ${partial.summary}\n\nFindings:\n${findings.join('\n')}`;
+  }).join('\n\n');
+}
+
+// Helper function to group partials into batches whose prompt input fits the budget
+function batchPartials(partials: PartialSynthesis[], maxTokens: number): PartialSynthesis[][] {
+  const batches: PartialSynthesis[][] = [];
+  let current: PartialSynthesis[] = [];
+  let currentTokens = 0;
+  for (const partial of partials) {
+    const tokens = countTokens(formatPartials([partial]));
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(partial);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+// Helper function to merge one batch of partials with the model
+async function reduceBatch(
+  query: string,
+  partials: PartialSynthesis[],
+  sourceCount: number,
+  checkpoint?: Checkpoint,
+): Promise<PartialSynthesis> {
+  const inputFindings = partials.flatMap(p => p.keyFindings);
+  const prompt = `You are writing the final report for this research query: "${query}"
+
+The search results were analysed in parts. Here are the partial analyses. Their findings are numbered F1, F2, ... and cite sources with markers like [3]:
+
+${formatPartials(partials)}
+
+Merge the partial analyses into one coherent report:
+- Write a single executive summary of a few paragraphs that covers the whole picture, without repeating itself.
+- Cluster findings that are about the same thing, even when worded differently, into one finding.
+- Where partial analyses contradict each other, say so in the finding, give each position with its citations, and say which is better supported.
+- Rank the findings from most to least important for the query.
+- Keep every detail's citation markers exactly as they are, and only use markers that appear above. Do not add facts that are not in the partial analyses.
+
+Format your response as a JSON object like this:
+{
+  "executiveSummary": "The executive summary, with paragraphs separated by blank lines",
+  "keyFindings": [
+    {
+      "title": "Finding title",
+      "details": ["Specific detail [1][4]", "Another detail [2]"],
+      "mergedFrom": ["F1", "F5"]
+    }
+  ]
+}
+
+IMPORTANT: Return ONLY the JSON object, no other text.`;
+
+  const run = () => generateObject(SynthesisSchema, prompt);
+  const synthesis = checkpoint
+    ? await checkpoint.step(`synthesis:${hashText(prompt).slice(0, 16)}`, run)
+    : await run();
+
+  // Drop citation markers pointing at sources that don't exist
+  const validIds = new Map(Array.from({ length: sourceCount }, (_, i) => [i + 1, i + 1]));
+  return {
+    summary: synthesis.executiveSummary,
+    keyFindings: synthesis.keyFindings.map(({ title, details, mergedFrom }): KeyFinding => {
+      // A merged finding belongs to the earliest level it was found at
+      const levels = mergedFrom
+        .map(id => inputFindings[parseInt(id.replace(/^F/i, ''), 10) - 1]?.level)
+        .filter((level): level is number => level !== undefined);
+      return {
+        title,
+        details: details.map(detail => remapCitations(detail, validIds).text),
+        ...(levels.length > 0 ? { level: Math.min(...levels) } : {}),
+      };
+    }),
+  };
+}
+
+// Synthesizes the chunk analyses of a run into one executive summary and a
+// ranked list of key findings. Chunks that don't fit in one prompt are
+// reduced in batches, and the batch results reduced again, until one is left.
+export async function synthesizeReport({
+  query,
+  chunks,
+  sourceCount,
+  maxTokens,
+  checkpoint,
+}: {
+  query: string;
+  chunks: ChunkSummary[];
+  // Number of sources in the report, for validating citation markers
+  sourceCount: number;
+  // Token budget of the partial analyses in one prompt
+  maxTokens: number;
+  checkpoint?: Checkpoint;
+}): Promise<PartialSynthesis> {
+  let partials: PartialSynthesis[] = chunks.map(chunk => ({
+    summary: chunk.summary,
+    keyFindings: chunk.keyFindings.map(f => ({ ...f, level: chunk.level })),
+  }));
+  // A single analysis is already coherent
+  if (partials.length <= 1) {
+    return concatenate(partials);
+  }
+
+  try {
+    getLogger().log(`\n🧩 Synthesizing ${partials.length} partial analyses into the report...`);
+    while (partials.length > 1) {
+      const batches = batchPartials(partials, maxTokens);
+      // Batches of one can't shrink, so pair them with a neighbour instead
+      const merged = batches.length === partials.length
+        ? Array.from({ length: Math.ceil(partials.length / 2) }, (_, i) => partials.slice(i * 2, i * 2 + 2))
+        : batches;
+      partials = await Promise.all(merged.map(batch =>
+        batch.length === 1 ? batch[0]! : reduceBatch(query, batch, sourceCount, checkpoint),
+      ));
+    }
+    return partials[0]!;
+  } catch (e) {
+    getLogger().error('\nError synthesizing the report, concatenating the partial analyses instead:', e);
+    return concatenate(partials);
+  }
+}
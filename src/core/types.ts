@@ -0,0 +1,196 @@
+import type { Logger } from '../utils/logger';
+import type { Checkpoint } from './checkpoint';
+import type { VectorIndex } from './vector-index';
+
+// A document that was used in the research, numbered by its position in the
+// report's Sources list
+export interface Source {
+  url: string;
+  title: string;
+  description?: string;
+  // Publication metadata, when the page exposes it
+  author?: string;
+  siteName?: string;
+  publishedAt?: string;
+  // ISO timestamp of when the page was fetched
+  fetchedAt: string;
+  // Quality score from 0 to 1, from the domain, recency and content, once vetted
+  score?: number;
+}
+
+// How well a finding is supported: by the number of independent sites citing
+// it, and low for findings the sources disagree on
+export type Confidence = 'high' | 'medium' | 'low';
+
+export interface KeyFinding {
+  title: string;
+  // Each detail ends with citation markers like [1][3] pointing at the Sources list
+  details: string[];
+  // Research level (1 = initial queries) the finding was discovered at
+  level?: number;
+  confidence?: Confidence;
+}
+
+// One side of a dispute, with the citation ids of the sources claiming it
+export interface DisputedClaim {
+  claim: string;
+  sources: number[];
+}
+
+// A point the sources disagree on
+export interface Dispute {
+  topic: string;
+  claims: DisputedClaim[];
+  // Which side is better supported, and why
+  assessment: string;
+  // 1-based positions of the key findings the dispute affects
+  findings: number[];
+}
+
+export interface ClarificationTurn {
+  question: string;
+  answer: string;
+}
+
+// What the user wants researched, distilled from their query and their
+// answers to the clarifying questions
+export interface ResearchBrief {
+  query: string;
+  // What the research should cover
+  scope: string;
+  // Aspects to focus on, most important first
+  priorities: string[];
+  // Aspects to leave out
+  exclusions: string[];
+  // The clarifying questions and answers the brief was built from
+  clarifications: ClarificationTurn[];
+}
+
+// The period research is limited to, as YYYY-MM-DD dates; either end may be open
+export interface DateRange {
+  since?: string;
+  until?: string;
+}
+
+// Documents the user already has and wants the research built around: web
+// pages or PDFs by URL, and local Markdown, text, HTML or PDF files
+export interface SeedSources {
+  urls?: string[];
+  files?: string[];
+}
+
+export interface ResearchLevel {
+  level: number;
+  breadth: number;
+  searchQueries: string[];
+  // How long the level took, searching and analysis included
+  durationMs: number;
+  // Set on levels added after the run by digging into one topic: the topic,
+  // and the ISO timestamp the dig started (other levels start when the one
+  // before ended)
+  topic?: string;
+  startedAt?: string;
+}
+
+export interface ResearchTimings {
+  // ISO timestamps
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+}
+
+// The analysis of one chunk of search results, before synthesis
+export interface ChunkSummary {
+  level: number;
+  // Citation ids of the sources the chunk held
+  sourceIds: number[];
+  summary: string;
+  keyFindings: KeyFinding[];
+}
+
+// A section of a long-form report. Summary, findings and disputes sections
+// show those parts of the report; text sections carry markdown.
+export type ReportSection =
+  | { kind: 'summary'; title: string }
+  | { kind: 'findings'; title: string }
+  // The disputes and the findings backed by a single source
+  | { kind: 'disputes'; title: string }
+  | { kind: 'text'; id: string; title: string; content: string };
+
+export interface ResearchReport {
+  executiveSummary: string;
+  // Ranked from most to least important
+  keyFindings: KeyFinding[];
+  sources: Source[];
+  // Points the sources disagree on
+  disputes?: Dispute[];
+  // The chunk analyses the report was synthesized from, when there were several
+  appendix?: ChunkSummary[];
+  // The sections of a long-form report and the template they were written
+  // from; reports without them show the summary and findings only
+  template?: string;
+  sections?: ReportSection[];
+}
+
+export interface ResearchResult {
+  // Identifies the run in the research history
+  id: string;
+  query: string;
+  brief?: ResearchBrief;
+  // The period the research was limited to, if any
+  dateRange?: DateRange;
+  seeds?: SeedSources;
+  // All search queries that were run, across levels
+  searchQueries: string[];
+  levels: ResearchLevel[];
+  learnings: string[];
+  report: ResearchReport;
+  timings: ResearchTimings;
+  // Set when the research could not be completed
+  error?: string;
+}
+
+export type ResearchStage = 'generating-queries' | 'searching' | 'analyzing' | 'complete';
+
+export interface ResearchProgress {
+  stage: ResearchStage;
+  // Current research level, starting at 1
+  level: number;
+  depth: number;
+  // Search queries finished / planned on the current level
+  completedQueries: number;
+  totalQueries: number;
+  // The search query being run, while searching
+  currentQuery?: string;
+}
+
+export interface ResearchOptions {
+  // Id for the run; generated when not given
+  runId?: string;
+  query: string;
+  // Refines the query with the user's scope, priorities and exclusions
+  brief?: ResearchBrief;
+  // Only look for pages published in this period; pages dated outside it are dropped
+  dateRange?: DateRange;
+  // Read and analysed on the first level, alongside the search results
+  seeds?: SeedSources;
+  // Number of search queries on the first level; halves at every level
+  breadth: number;
+  // Number of research levels
+  depth: number;
+  // Searches and chunk analyses to run at the same time (default 4)
+  concurrency?: number;
+  // Saves every finished step, and restores the steps a resumed run already finished
+  checkpoint?: Checkpoint;
+  // Every analysed document is added to this index, to be searched later;
+  // the run uses an index of its own when not given
+  index?: VectorIndex;
+  // Where progress, warnings and errors are reported: nothing is by default,
+  // unless a default logger was set with setLogger. Pass `console` to see them.
+  logger?: Logger;
+  onProgress?: (progress: ResearchProgress) => void;
+  // Called for every learning extracted from the search results
+  onLearning?: (learning: string, level: number) => void;
+  // Called when a document is added to the Sources list, with its citation id
+  onSource?: (source: Source, id: number) => void;
+}
@@ -0,0 +1,136 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { embedderFor, getEmbedder, type Embedder } from '../models/embeddings';
+import { countTokens } from '../models/providers/ai-models';
+import { RecursiveCharacterTextSplitter } from '../utils/text-splitter';
+
+// Tokens per passage: small enough to retrieve precisely, big enough to hold a claim with its context
+const PassageTokens = 300;
+const PassageOverlap = 50;
+
+// A piece of a source document, citing the source by its run-wide id
+export interface Passage {
+  sourceId: number;
+  text: string;
+}
+
+export interface RetrievedPassage extends Passage {
+  // Cosine similarity to the query, from -1 to 1
+  score: number;
+}
+
+// An in-process vector index over the documents gathered in a run
+export interface VectorIndex {
+  // Name of the embedder the passages were embedded with
+  readonly embedder: string;
+  // Number of passages in the index
+  size(): number;
+  // Splits documents into passages, embeds them and adds them to the index.
+  // Sources already in the index are skipped. Returns the passages added.
+  add(documents: { sourceId: number; content: string }[]): Promise<number>;
+  // The k passages most similar to the query, best first
+  search(query: string, k?: number): Promise<RetrievedPassage[]>;
+  save(path: string): Promise<void>;
+}
+
+// The saved form of an index; vectors are stored as one base64 Float32 array
+interface SavedIndex {
+  version: 1;
+  embedder: string;
+  dimensions: number;
+  passages: Passage[];
+  vectors: string;
+}
+
+// Helper function to take the dot product of two unit vectors
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * b[i]!;
+  }
+  return sum;
+}
+
+// create an empty index, or one holding the given passages and vectors
+export function createVectorIndex({
+  embedder = getEmbedder(),
+  passages = [],
+  vectors = [],
+}: {
+  embedder?: Embedder;
+  passages?: Passage[];
+  vectors?: Float32Array[];
+} = {}): VectorIndex {
+  const entries = passages.map((passage, i) => ({ passage, vector: vectors[i]! }));
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: PassageTokens,
+    chunkOverlap: PassageOverlap,
+    lengthFunction: countTokens,
+  });
+
+  return {
+    embedder: embedder.name,
+    size: () => entries.length,
+    async add(documents) {
+      const indexed = new Set(entries.map(e => e.passage.sourceId));
+      const added = documents
+        .filter(d => !indexed.has(d.sourceId))
+        .flatMap(({ sourceId, content }) => splitter.splitText(content).map(text => ({ sourceId, text })));
+      if (added.length === 0) return 0;
+
+      const embedded = await embedder.embed(added.map(p => p.text));
+      added.forEach((passage, i) => entries.push({ passage, vector: Float32Array.from(embedded[i]!) }));
+      return added.length;
+    },
+    async search(query, k = 5) {
+      if (entries.length === 0) return [];
+      const [vector] = await embedder.embed([query]);
+      return entries
+        .map(({ passage, vector: v }) => ({ ...passage, score: dot(vector!, v) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+    },
+    async save(path) {
+      const dimensions = entries[0]?.vector.length ?? 0;
+      const all = new Float32Array(entries.length * dimensions);
+      entries.forEach(({ vector }, i) => all.set(vector, i * dimensions));
+      const saved: SavedIndex = {
+        version: 1,
+        embedder: embedder.name,
+        dimensions,
+        passages: entries.map(e => e.passage),
+        vectors: Buffer.from(all.buffer).toString('base64'),
+      };
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify(saved));
+    },
+  };
+}
+
+// load a saved index. It is searched with the embedder it was built with,
+// which must still be available (see embedderFor).
+export async function loadVectorIndex(path: string): Promise<VectorIndex> {
+  const saved: SavedIndex = JSON.parse(await readFile(path, 'utf8'));
+  const bytes = Buffer.from(saved.vectors, 'base64');
+  // Copied, since a Buffer's memory may not be aligned for a Float32Array
+  const all = new Float32Array(new Uint8Array(bytes).buffer);
+  const vectors = saved.passages.map((_, i) => all.slice(i * saved.dimensions, (i + 1) * saved.dimensions));
+  return createVectorIndex({ embedder: embedderFor(saved.embedder), passages: saved.passages, vectors });
+}
+
+// format retrieved passages for a prompt, citing their sources, within a
+// token budget; the best passages come first, so the weakest are left out
+export function formatPassages(passages: RetrievedPassage[], maxTokens: number): string {
+  const lines: string[] = [];
+  let used = 0;
+  const seen = new Set<string>();
+  for (const { sourceId, text } of passages) {
+    const line = `[${sourceId}] ${text.replace(/\s+/g, ' ').trim()}`;
+    if (seen.has(line)) continue;
+    used += countTokens(line) + 1;
+    if (used > maxTokens) break;
+    seen.add(line);
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
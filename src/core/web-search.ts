@@ -1,82 +1,106 @@
-import FirecrawlApp from '@mendable/firecrawl-js';
-import { compact } from 'lodash-es';
 import { trimPrompt } from '../models/providers/ai-models';
-import pLimit from 'p-limit';
+import { getCache } from '../utils/cache';
+import { getLogger } from '../utils/logger';
+import { extractPublishDate, normalizeDate } from '../utils/publish-date';
+import { getScheduler } from '../utils/scheduler';
+import { createFirecrawlProvider } from './search-providers/firecrawl-provider';
+import { createLocalCorpusProvider } from './search-providers/local-corpus-provider';
+import { createSearxngProvider } from './search-providers/searxng-provider';
+import type {
+  SearchDocument,
+  SearchProvider,
+  SearchProviderConfig,
+  SearchProviderName,
+} from './search-providers/types';
+import type { DateRange } from './types';
 
-// Initialize Firecrawl with optional API key and optional base url
-const firecrawl = new FirecrawlApp({
-  apiKey: process.env.FIRECRAWL_KEY ?? '',
-  apiUrl: process.env.FIRECRAWL_BASE_URL,
-});
+export type { SearchDocument } from './search-providers/types';
 
-// Rate limit to 2 concurrent requests to avoid hitting API limits
-const limit = pLimit(2);
+// Pages are analysed in chunks, so only pages longer than this many tokens,
+// a few chunks even for large context windows, are cut short
+const MaxPageTokens = 100_000;
 
-// Helper function to delay execution
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Helper function to retry a function with exponential backoff
-async function retry<T>(
-  fn: () => Promise<T>,
-  retries = 3,
-  baseDelay = 2000,
-): Promise<T> {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries === 0) throw e;
-    
-    // If we hit rate limits, wait longer
-    const isRateLimit = e.statusCode === 429;
-    const waitTime = isRateLimit ? baseDelay * 4 : baseDelay;
-    
-    // Extract reset time from error message if available
-    let resetTime = '';
-    if (isRateLimit && e.message) {
-      const match = e.message.match(/resets at ([^)]+)/);
-      if (match) resetTime = ` (resets at ${match[1]})`;
-    }
-    
-    console.log(`Rate limit hit, waiting ${waitTime/1000}s before retry${resetTime}...`);
-    await delay(waitTime);
-    
-    return retry(fn, retries - 1, waitTime * 2);
+export function createSearchProvider(config: SearchProviderConfig): SearchProvider {
+  switch (config.provider) {
+    case 'firecrawl':
+      return createFirecrawlProvider(config);
+    case 'searxng':
+      return createSearxngProvider(config);
+    case 'local':
+      return createLocalCorpusProvider(config);
+    default:
+      throw new Error(`Unknown search provider: ${config.provider}`);
   }
 }
 
-export async function searchWeb(query: string, depth: number): Promise<string[]> {
+// read the provider config from the environment (SEARCH_PROVIDER)
+export function searchConfigFromEnv(): SearchProviderConfig {
+  return {
+    provider: (process.env.SEARCH_PROVIDER ?? 'firecrawl').toLowerCase() as SearchProviderName,
+  };
+}
+
+let defaultProvider: SearchProvider | undefined;
+
+// the search provider used by searchWeb, created from the environment on first use
+export function getSearchProvider(): SearchProvider {
+  defaultProvider ??= createSearchProvider(searchConfigFromEnv());
+  return defaultProvider;
+}
+
+export function setSearchProvider(provider: SearchProvider | SearchProviderConfig) {
+  defaultProvider = 'search' in provider ? provider : createSearchProvider(provider);
+}
+
+// search the web with the current provider. Throws when the search fails; a
+// search that found nothing returns no documents.
+export async function searchWeb(query: string, depth: number, dateRange?: DateRange): Promise<SearchDocument[]> {
   try {
-    console.log(`\n🔎 Searching for: "${query}"`);
-    
-    // Use rate limiting and retries
-    const result = await limit(() => 
-      retry(async () => {
-        const searchResult = await firecrawl.search(query, {
-          timeout: 30000, // Increased timeout
-          limit: Math.min(depth * 2, 5), // Limit results to avoid rate limits
-          scrapeOptions: { formats: ['markdown'] },
-        });
-        return searchResult;
+    getLogger().log(`\n🔎 Searching for: "${query}"`);
+
+    const provider = getSearchProvider();
+    const resultLimit = Math.min(depth * 2, 5); // Limit results to avoid rate limits
+    const key = {
+      provider: provider.name,
+      endpoint: provider.endpoint,
+      query: query.toLowerCase().replace(/\s+/g, ' ').trim(),
+      limit: resultLimit,
+      dateRange,
+    };
+    const cached = await getCache().get<SearchDocument[]>('search', key);
+    if (cached) {
+      getLogger().log(`Found ${cached.length} relevant results (cached)`);
+      return cached;
+    }
+
+    // The shared scheduler handles rate limits and retries
+    const documents = await getScheduler().run(provider.name, () =>
+      provider.search(query, {
+        timeout: 30000, // Increased timeout
+        limit: resultLimit,
+        dateRange,
       })
     );
 
-    // Extract and clean the content
-    const contents = compact(result.data.map(item => {
-      const content = item.markdown;
-      if (!content) return null;
-      
-      // Trim the content to a reasonable size
-      return trimPrompt(content, 15_000); // Reduced size to avoid token limits
+    // Trim only pathologically long pages, since long pages are split into
+    // chunks for analysis, and date the pages the provider didn't date from
+    // their content
+    const contents = documents.map(doc => ({
+      ...doc,
+      publishedAt: normalizeDate(doc.publishedAt) ?? extractPublishDate(doc.content),
+      content: trimPrompt(doc.content, MaxPageTokens),
     }));
 
-    // Add a small delay between searches to avoid rate limits
-    await delay(1000);
+    // Searches that found nothing are tried again next time
+    if (contents.length > 0) {
+      await getCache().set('search', key, contents);
+    }
 
-    console.log(`Found ${contents.length} relevant results`);
+    getLogger().log(`Found ${contents.length} relevant results`);
     return contents;
   } catch (e) {
-    console.error(`\n⚠️ Error searching for "${query}":`, e);
-    // Return an empty array but don't fail the whole process
-    return [];
+    getLogger().error(`\n⚠️ Error searching for "${query}":`, e);
+    // Failing, unlike finding nothing, lets the caller search again later
+    throw e;
   }
 } 
\ No newline at end of file
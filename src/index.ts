@@ -0,0 +1,174 @@
+// Library entry point: everything a host application needs to run research
+// without going through the CLI
+export { deepResearch, extendResearch } from './core/research-engine';
+export { generateFeedback } from './core/feedback';
+export {
+  chunkDocuments,
+  chunkTokenBudget,
+  createChunker,
+  currentChunkBudget,
+  splitDocument,
+  type Chunker,
+  type DocumentPiece,
+} from './core/chunking';
+export { clarifyResearch, formatBrief, generateResearchBrief } from './core/clarification';
+export { synthesizeReport, type PartialSynthesis } from './core/synthesis';
+export { analyzeConfidence, independentSources, scoreConfidence } from './core/confidence';
+export { loadSeedFile, loadSeeds, loadSeedUrl, parseSeed, type SeedFormat } from './core/seed-sources';
+export {
+  getVettingConfig,
+  scoreDocument,
+  setVettingConfig,
+  simhash,
+  vetDocuments,
+  vettingConfigFromEnv,
+  type VettingConfig,
+  type VettingResult,
+} from './core/source-vetting';
+export type {
+  ChunkSummary,
+  ClarificationTurn,
+  Confidence,
+  DateRange,
+  Dispute,
+  DisputedClaim,
+  KeyFinding,
+  ResearchBrief,
+  ResearchLevel,
+  ResearchOptions,
+  ResearchProgress,
+  ReportSection,
+  ResearchReport,
+  ResearchResult,
+  ResearchStage,
+  ResearchTimings,
+  SeedSources,
+  Source,
+} from './core/types';
+
+// Checkpoints, for resuming interrupted runs
+export {
+  createCheckpoint,
+  loadCheckpoint,
+  type Checkpoint,
+  type CheckpointParams,
+} from './core/checkpoint';
+
+// Research history
+export {
+  listRuns,
+  loadRun,
+  loadRunIndex,
+  recordRun,
+  type HistoryEntry,
+  type HistoryRecord,
+} from './core/history';
+export {
+  diffRuns,
+  formatRunDiff,
+  type FindingChange,
+  type RunDiff,
+} from './core/history-diff';
+
+// Vector index of the documents gathered in a run
+export {
+  createVectorIndex,
+  formatPassages,
+  loadVectorIndex,
+  type Passage,
+  type RetrievedPassage,
+  type VectorIndex,
+} from './core/vector-index';
+export {
+  createLocalEmbedder,
+  createProviderEmbedder,
+  getEmbedder,
+  setEmbedder,
+  type Embedder,
+} from './models/embeddings';
+
+// Report rendering
+export { formatReport } from './report/markdown';
+export {
+  CitationStyles,
+  formatCitation,
+  toBibTeX,
+  toCslJson,
+  type CitationStyle,
+} from './report/citation-styles';
+export {
+  getRenderer,
+  listFormats,
+  registerRenderer,
+  renderReport,
+  type RenderOptions,
+  type ReportRenderer,
+} from './report/renderers';
+
+// Long-form reports and follow-up questions
+export { formatMethodology, writeReport } from './report/writer';
+export { answerQuestion, type ConversationTurn } from './report/answers';
+export {
+  getTemplate,
+  listTemplates,
+  loadTemplate,
+  registerTemplate,
+  type ReportTemplate,
+  type TemplateSection,
+} from './report/templates';
+
+// Search providers
+export {
+  createSearchProvider,
+  getSearchProvider,
+  setSearchProvider,
+} from './core/web-search';
+export type {
+  SearchDocument,
+  SearchOptions,
+  SearchProvider,
+  SearchProviderConfig,
+  SearchProviderName,
+} from './core/search-providers/types';
+
+// Model providers
+export {
+  createLLMProvider,
+  getLLMProvider,
+  setLLMProvider,
+} from './models/providers/ai-models';
+export { generateObject, StructuredOutputError } from './models/generate-object';
+export type {
+  GenerateTextOptions,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderName,
+} from './models/providers/types';
+
+// Cache of search results and model responses
+export {
+  cacheConfigFromEnv,
+  createCache,
+  getCache,
+  setCache,
+  type Cache,
+  type CacheConfig,
+  type CacheNamespace,
+} from './utils/cache';
+
+// Where progress and errors are reported; silent by default
+export { getLogger, setLogger, silentLogger, withLogger, type Logger } from './utils/logger';
+
+// Shared rate limiting and retries
+export {
+  createScheduler,
+  formatSchedulerStats,
+  getScheduler,
+  RequestError,
+  schedulerConfigFromEnv,
+  setScheduler,
+  type ProviderQuota,
+  type ProviderStats,
+  type Scheduler,
+  type SchedulerConfig,
+} from './utils/scheduler';
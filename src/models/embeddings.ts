@@ -0,0 +1,122 @@
+import { getCache, hashText } from '../utils/cache';
+import { getScheduler } from '../utils/scheduler';
+import { StopWords } from '../utils/stop-words';
+import { countTokens, getLLMProvider } from './providers/ai-models';
+import type { LLMProvider } from './providers/types';
+
+// Turns texts into vectors for semantic search
+export interface Embedder {
+  // Identifies the embedding model, e.g. "gemini/text-embedding-004". Vectors
+  // of different embedders can't be compared.
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Texts per embedding request
+const BatchSize = 64;
+// Dimensions of the local embeddings
+const LocalDimensions = 512;
+
+// scale a vector to unit length, so the dot product of two vectors is their cosine similarity
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return length > 0 ? vector.map(x => x / length) : vector;
+}
+
+// Helper function to hash a string to 32 bits (FNV-1a)
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Helper function to embed a text by hashing its words and word pairs into a
+// fixed number of dimensions, weighting repeated terms sublinearly
+function hashEmbedding(text: string, dimensions: number): number[] {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => word.length > 2 && !StopWords.has(word));
+  const counts = new Map<string, number>();
+  const terms = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+  terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [term, count] of counts) {
+    const hash = fnv1a(term);
+    // The sign spreads collisions out instead of letting them add up
+    vector[hash % dimensions]! += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  }
+  return normalize(vector);
+}
+
+// an embedder that runs in-process, without a model or network access. It
+// matches passages that share words and phrases with the query, which is
+// coarser than a neural embedding model but always available.
+export function createLocalEmbedder(dimensions = LocalDimensions): Embedder {
+  return {
+    name: `local/hashing-${dimensions}`,
+    async embed(texts: string[]) {
+      return texts.map(text => hashEmbedding(text, dimensions));
+    },
+  };
+}
+
+// embed texts with an LLM provider's embedding model, in batches, through
+// the cache and the shared scheduler
+export function createProviderEmbedder(provider: LLMProvider): Embedder {
+  const embed = provider.embed;
+  if (!embed) {
+    throw new Error(`The ${provider.name} provider does not offer embeddings`);
+  }
+  const model = provider.embeddingModel ?? provider.model;
+
+  return {
+    name: `${provider.name}/${model}`,
+    async embed(texts: string[]) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += BatchSize) {
+        const batch = texts.slice(i, i + BatchSize);
+        const key = { provider: provider.name, endpoint: provider.endpoint, model, embed: hashText(batch.join('\u0000')) };
+        const embedded = await getCache().wrap('llm', key, () =>
+          getScheduler().run(provider.name, () => embed.call(provider, batch), {
+            tokens: batch.reduce((sum, text) => sum + countTokens(text), 0),
+          }),
+        );
+        if (embedded.length !== batch.length) {
+          throw new Error(`${provider.name} returned ${embedded.length} embeddings for ${batch.length} texts`);
+        }
+        vectors.push(...embedded.map(normalize));
+      }
+      return vectors;
+    },
+  };
+}
+
+// the embedder for a saved embedder name: the local one is always available,
+// the provider's only while that provider and model are configured
+export function embedderFor(name: string): Embedder {
+  const current = getEmbedder();
+  if (current.name === name) return current;
+  const local = name.match(/^local\/hashing-(\d+)$/);
+  if (local) return createLocalEmbedder(Number(local[1]));
+  throw new Error(`Embeddings from ${name} can't be searched with ${current.name}; configure that embedding model first`);
+}
+
+let defaultEmbedder: Embedder | undefined;
+
+// the embedder used for the vector index: the LLM provider's embedding model
+// when it has one, unless EMBEDDING_PROVIDER=local, otherwise the local one
+export function getEmbedder(): Embedder {
+  if (defaultEmbedder) return defaultEmbedder;
+  const provider = getLLMProvider();
+  return process.env.EMBEDDING_PROVIDER?.toLowerCase() !== 'local' && provider.embed
+    ? createProviderEmbedder(provider)
+    : createLocalEmbedder();
+}
+
+// use an embedder instead of the default; undefined goes back to the default
+export function setEmbedder(embedder: Embedder | undefined) {
+  defaultEmbedder = embedder;
+}
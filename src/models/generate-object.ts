@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { getCache, hashText } from '../utils/cache';
+import { getLogger } from '../utils/logger';
+import { getScheduler } from '../utils/scheduler';
+import { countTokens, getLLMProvider } from './providers/ai-models';
+import type { LLMProvider } from './providers/types';
+
+// Thrown when the model still returns invalid output after all repair attempts
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[],
+    readonly lastResponse: string,
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// extract the first complete JSON object from a model response
+export function extractJSON(text: string): string | null {
+  // Try to find JSON between triple backticks first
+  const codeBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+  if (codeBlockMatch) {
+    return codeBlockMatch[1]!;
+  }
+
+  // Count braces to find the outermost complete object, ignoring braces
+  // inside strings
+  let braceCount = 0;
+  let startIndex = -1;
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"' && braceCount > 0) {
+      inString = true;
+    } else if (char === '{') {
+      if (braceCount === 0) {
+        startIndex = i;
+      }
+      braceCount++;
+    } else if (char === '}' && braceCount > 0) {
+      braceCount--;
+      if (braceCount === 0) {
+        return text.substring(startIndex, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+// parse and validate a model response, returning readable issues on failure
+export function parseObject<T extends z.ZodTypeAny>(
+  schema: T,
+  text: string,
+): { success: true; data: z.infer<T> } | { success: false; issues: string[] } {
+  const jsonStr = extractJSON(text);
+  if (!jsonStr) {
+    return { success: false, issues: ['No JSON object found in the response'] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(jsonStr);
+  } catch (e) {
+    return { success: false, issues: [`Invalid JSON: ${(e as Error).message}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map(
+        issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`,
+      ),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+function repairPrompt(prompt: string, response: string, issues: string[]): string {
+  return `${prompt}
+
+PREVIOUS ATTEMPT FAILED. Your previous response was:
+${response}
+
+It had these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Fix these problems and return ONLY a valid JSON object in the requested format. No other text.`;
+}
+
+// Generate a JSON object with the model and validate it against a zod schema.
+// Invalid responses are sent back to the model with the validation errors,
+// up to `maxRepairs` times, before giving up with a StructuredOutputError.
+export async function generateObject<T extends z.ZodTypeAny>(
+  schema: T,
+  prompt: string,
+  {
+    system,
+    provider = getLLMProvider(),
+    maxRepairs = 2,
+  }: {
+    system?: string;
+    provider?: LLMProvider;
+    maxRepairs?: number;
+  } = {},
+): Promise<z.infer<T>> {
+  let currentPrompt = prompt;
+  let lastResponse = '';
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const options = { system, json: true };
+    // Responses are cached by prompt, so re-runs and replays skip the model
+    // call. Only valid ones are: an invalid one would be repaired on every run.
+    const key = {
+      provider: provider.name,
+      endpoint: provider.endpoint,
+      model: provider.model,
+      prompt: hashText(currentPrompt),
+      system: system === undefined ? undefined : hashText(system),
+      json: options.json,
+    };
+    lastResponse = await getCache().wrap('llm', key, () =>
+      // The shared scheduler keeps every call site within the provider's quota
+      getScheduler().run(provider.name, () => provider.generateText(currentPrompt, options), {
+        tokens: countTokens(currentPrompt) + (system ? countTokens(system) : 0),
+      }),
+      { keep: response => parseObject(schema, response).success },
+    );
+
+    const result = parseObject(schema, lastResponse);
+    if (result.success) {
+      return result.data;
+    }
+
+    issues = result.issues;
+    getLogger().log(`\nInvalid model response (attempt ${attempt + 1}/${maxRepairs + 1}):`, issues.join('; '));
+    currentPrompt = repairPrompt(prompt, lastResponse, issues);
+  }
+
+  throw new StructuredOutputError(
+    `Model response did not match the schema after ${maxRepairs + 1} attempts`,
+    issues,
+    lastResponse,
+  );
+}
@@ -1,27 +1,57 @@
 import { getEncoding } from 'js-tiktoken';
-import { createGeminiClient } from './gemini-provider';
+import { createGeminiProvider } from './gemini-provider';
+import { createOllamaProvider } from './ollama-provider';
+import { createOpenAIProvider } from './openai-provider';
+import type { LLMProvider, LLMProviderConfig, LLMProviderName } from './types';
 import { RecursiveCharacterTextSplitter } from '../../utils/text-splitter';
 
 // Providers
-const gemini = createGeminiClient();
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'ollama':
+      return createOllamaProvider(config);
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
+
+// read the provider config from the environment (LLM_PROVIDER, LLM_MODEL,
+// LLM_CONTEXT_WINDOW, EMBEDDING_MODEL)
+export function llmConfigFromEnv(): LLMProviderConfig {
+  const provider = (process.env.LLM_PROVIDER ?? 'gemini').toLowerCase() as LLMProviderName;
+  const contextWindow = parseInt(process.env.LLM_CONTEXT_WINDOW ?? '', 10);
+  return {
+    provider,
+    model: process.env.LLM_MODEL || undefined,
+    contextWindow: contextWindow > 0 ? contextWindow : undefined,
+    embeddingModel: process.env.EMBEDDING_MODEL || undefined,
+  };
+}
 
-// Models
-export const gpt4Model = gemini('gemini-pro', {
-  structuredOutputs: true,
-});
+let defaultProvider: LLMProvider | undefined;
 
-export const gpt4MiniModel = gemini('gemini-pro', {
-  structuredOutputs: true,
-});
+// the provider shared by every module, created from the environment on first use
+export function getLLMProvider(): LLMProvider {
+  defaultProvider ??= createLLMProvider(llmConfigFromEnv());
+  return defaultProvider;
+}
 
-export const o3MiniModel = gemini('gemini-pro', {
-  reasoningEffort: 'medium',
-  structuredOutputs: true,
-});
+export function setLLMProvider(provider: LLMProvider | LLMProviderConfig) {
+  defaultProvider = 'generateText' in provider ? provider : createLLMProvider(provider);
+}
 
 const MinChunkSize = 140;
 const encoder = getEncoding('o200k_base');
 
+// count the tokens of a text, e.g. to charge a prompt against a tokens-per-minute quota
+export function countTokens(text: string): number {
+  return encoder.encode(text).length;
+}
+
 // trim prompt to maximum context size
 export function trimPrompt(prompt: string, contextSize = 120_000) {
   if (!prompt) {
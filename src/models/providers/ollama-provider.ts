@@ -0,0 +1,67 @@
+import { requestError } from '../../utils/scheduler';
+import type { GenerateTextOptions, LLMProvider } from './types';
+
+const DefaultBaseUrl = 'http://localhost:11434';
+const DefaultModel = 'llama3.1';
+// Pull it with `ollama pull nomic-embed-text`
+const DefaultEmbeddingModel = 'nomic-embed-text';
+// Ollama defaults to a 2k context unless told otherwise, so every request
+// asks for this much (set LLM_CONTEXT_WINDOW to what the model and the
+// machine's memory allow)
+const DefaultContextWindow = 8192;
+
+// Talks to a local Ollama server, so research can run without any cloud API
+export function createOllamaProvider({
+  model = DefaultModel,
+  baseUrl = process.env.OLLAMA_BASE_URL ?? DefaultBaseUrl,
+  contextWindow = DefaultContextWindow,
+  embeddingModel = DefaultEmbeddingModel,
+}: {
+  model?: string;
+  baseUrl?: string;
+  contextWindow?: number;
+  embeddingModel?: string;
+} = {}): LLMProvider {
+  return {
+    name: 'ollama',
+    endpoint: baseUrl,
+    model,
+    contextWindow,
+    async generateText(prompt: string, options: GenerateTextOptions = {}) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          prompt,
+          system: options.system,
+          format: options.json ? 'json' : undefined,
+          options: { num_ctx: contextWindow, temperature: options.temperature },
+          stream: false,
+        }),
+      });
+
+      if (!response.ok) {
+        throw await requestError('Ollama', response);
+      }
+
+      const data = await response.json();
+      return data.response ?? '';
+    },
+    embeddingModel,
+    async embed(texts: string[]) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: embeddingModel, input: texts }),
+      });
+
+      if (!response.ok) {
+        throw await requestError('Ollama', response);
+      }
+
+      const data = await response.json();
+      return data.embeddings ?? [];
+    },
+  };
+}
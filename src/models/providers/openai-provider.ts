@@ -0,0 +1,79 @@
+import { requestError } from '../../utils/scheduler';
+import type { GenerateTextOptions, LLMProvider } from './types';
+
+const DefaultBaseUrl = 'https://api.openai.com/v1';
+const DefaultModel = 'gpt-4o-mini';
+const DefaultEmbeddingModel = 'text-embedding-3-small';
+// Current OpenAI chat models take 128k tokens; set LLM_CONTEXT_WINDOW for
+// smaller models behind compatible servers
+const DefaultContextWindow = 128_000;
+
+// Works with OpenAI and any server exposing the same chat completions API
+// (vLLM, LM Studio, llama.cpp server, OpenRouter, ...)
+export function createOpenAIProvider({
+  model = DefaultModel,
+  apiKey = process.env.OPENAI_API_KEY,
+  baseUrl = process.env.OPENAI_BASE_URL ?? DefaultBaseUrl,
+  contextWindow = DefaultContextWindow,
+  embeddingModel = DefaultEmbeddingModel,
+}: {
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  contextWindow?: number;
+  embeddingModel?: string;
+} = {}): LLMProvider {
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
+
+  return {
+    name: 'openai',
+    endpoint: baseUrl,
+    model,
+    contextWindow,
+    async generateText(prompt: string, options: GenerateTextOptions = {}) {
+      const messages = [
+        ...(options.system ? [{ role: 'system', content: options.system }] : []),
+        { role: 'user', content: prompt },
+      ];
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: options.temperature,
+          response_format: options.json ? { type: 'json_object' } : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        throw await requestError('OpenAI', response);
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+    embeddingModel,
+    async embed(texts: string[]) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/embeddings`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: embeddingModel, input: texts }),
+      });
+
+      if (!response.ok) {
+        throw await requestError('OpenAI', response);
+      }
+
+      const data = await response.json();
+      // Sorted by index, since the API doesn't promise to keep the input order
+      return [...data.data]
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+export interface GenerateTextOptions {
+  // Instructions sent ahead of the prompt
+  system?: string;
+  temperature?: number;
+  // Ask the backend to constrain its output to JSON, where supported
+  json?: boolean;
+}
+
+// A chat model backend. Every module talks to the model through this
+// interface, so swapping Gemini for a local model is a config change.
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  // The server the provider talks to, for providers that can be pointed
+  // elsewhere; cached responses are kept apart by it
+  readonly endpoint?: string;
+  // Tokens the model accepts per request, prompt and response included
+  readonly contextWindow?: number;
+  generateText(prompt: string, options?: GenerateTextOptions): Promise<string>;
+  // Model behind embed, for backends that offer embeddings
+  readonly embeddingModel?: string;
+  // Embed texts as vectors for semantic search, one vector per text
+  embed?(texts: string[]): Promise<number[][]>;
+}
+
+export type LLMProviderName = 'gemini' | 'openai' | 'ollama';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  // Overrides the provider's default for the model
+  contextWindow?: number;
+  // Overrides the provider's default embedding model
+  embeddingModel?: string;
+}
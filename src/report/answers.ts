@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { currentChunkBudget } from '../core/chunking';
+import type { ResearchResult } from '../core/types';
+import { formatPassages, type VectorIndex } from '../core/vector-index';
+import { generateObject } from '../models/generate-object';
+import { pruneCitations } from '../utils/citations';
+import { getLogger } from '../utils/logger';
+import { researchContext } from './writer';
+
+const AnswerSchema = z.object({
+  answer: z.string().min(1),
+});
+
+// Passages retrieved from the index for each question
+const AnswerPassages = 8;
+// Earlier questions and answers kept in the prompt, so follow-ups can refer to them
+const ConversationTurns = 3;
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+// Helper function to retrieve the passages of the sources that are most
+// relevant to a question, within the token budget. The question before it
+// is searched along with it, since follow-ups like "and the cost?" rely on it.
+async function questionPassages(
+  index: VectorIndex,
+  question: string,
+  history: ConversationTurn[],
+  maxTokens: number,
+): Promise<string> {
+  try {
+    const search = [...history.slice(-1).map(turn => turn.question), question].join('\n');
+    const text = formatPassages(await index.search(search, AnswerPassages), maxTokens);
+    return text ? `Passages from the sources relevant to the question:\n${text}\n\n` : '';
+  } catch (e) {
+    getLogger().error('\nError searching the index for the question:', e);
+    return '';
+  }
+}
+
+// Answers a follow-up question about a finished run from what it gathered
+// only: the findings, learnings and sources of the report, and the passages of
+// the sources most relevant to the question when given the run's index. The
+// answer cites the report's numbered sources; markers the model makes up are
+// dropped.
+export async function answerQuestion({
+  result,
+  question,
+  index,
+  history = [],
+  maxTokens = currentChunkBudget(),
+}: {
+  result: ResearchResult;
+  question: string;
+  index?: VectorIndex;
+  // The questions asked so far in the conversation, oldest first
+  history?: ConversationTurn[];
+  // Token budget of the research context and passages in the prompt
+  maxTokens?: number;
+}): Promise<string> {
+  // Half of the budget goes to the passages, when there is an index to retrieve them from
+  const passageTokens = index && index.size() > 0 ? Math.floor(maxTokens / 2) : 0;
+  const context = researchContext(result, maxTokens - passageTokens);
+  const passages = passageTokens > 0
+    ? await questionPassages(index!, question, history, passageTokens)
+    : '';
+  const conversation = history.length > 0
+    ? `Earlier in this conversation:\n${history.slice(-ConversationTurns).map(turn => `Q: ${turn.question}\nA: ${turn.answer}`).join('\n')}\n\n`
+    : '';
+
+  const prompt = `You are answering follow-up questions about a finished research project.
+
+${context}
+
+${passages}${conversation}Question: ${question}
+
+Answer from the research above only, not from what you know otherwise. Support every factual statement with citation markers like [1] or [2][3] naming the numbered sources above.
+If the research does not answer the question, say so plainly and name what is missing, rather than guessing.
+Be concise: a few sentences or a short markdown list.
+
+Format your response as a JSON object like this:
+{
+  "answer": "The answer in markdown"
+}
+
+IMPORTANT: Return ONLY the JSON object, no other text.`;
+
+  const { answer } = await generateObject(AnswerSchema, prompt);
+  return pruneCitations(answer.trim(), result.report.sources.length);
+}
@@ -0,0 +1,190 @@
+import type { Source } from '../core/types';
+import { hostOf } from '../utils/url';
+import type { ReportRenderer } from './renderers';
+
+export const CitationStyles = ['apa', 'mla', 'chicago', 'ieee'] as const;
+export type CitationStyle = (typeof CitationStyles)[number];
+
+const MonthNames = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// MLA and IEEE abbreviate months longer than four letters
+const ShortMonthNames = [
+  'Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June',
+  'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.',
+];
+
+type DateParts = { year: number; month: number; day: number };
+
+// Helper function to parse an ISO date, ignoring invalid ones
+function parseDate(value: string | undefined): DateParts | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+}
+
+// the site name, falling back to the domain of the URL
+export function siteName(source: Source): string {
+  return source.siteName || (hostOf(source.url) ?? source.url);
+}
+
+// Helper function to end a citation element with a period, unless it already
+// ends with punctuation
+function period(text: string): string {
+  return /[.!?]$/.test(text) ? text : `${text}.`;
+}
+
+function formatApa(source: Source): string {
+  const published = parseDate(source.publishedAt);
+  const accessed = parseDate(source.fetchedAt)!;
+  const date = published
+    ? `${published.year}, ${MonthNames[published.month]} ${published.day}`
+    : 'n.d.';
+  const site = siteName(source);
+  // Undated pages need a retrieval date, since their content may change
+  const url = published
+    ? source.url
+    : `Retrieved ${MonthNames[accessed.month]} ${accessed.day}, ${accessed.year}, from ${source.url}`;
+
+  if (source.author) {
+    return `${period(source.author)} (${date}). *${period(source.title)}* ${period(site)} ${url}`;
+  }
+  return `*${period(source.title)}* (${date}). ${period(site)} ${url}`;
+}
+
+function formatMla(source: Source): string {
+  const published = parseDate(source.publishedAt);
+  const accessed = parseDate(source.fetchedAt)!;
+  const parts: string[] = [];
+  if (source.author) {
+    parts.push(period(source.author));
+  }
+  parts.push(`"${period(source.title)}"`);
+
+  let container = `*${siteName(source)}*`;
+  if (published) {
+    container += `, ${published.day} ${ShortMonthNames[published.month]} ${published.year}`;
+  }
+  parts.push(`${container}, ${source.url.replace(/^https?:\/\//, '')}.`);
+  parts.push(`Accessed ${accessed.day} ${ShortMonthNames[accessed.month]} ${accessed.year}.`);
+  return parts.join(' ');
+}
+
+function formatChicago(source: Source): string {
+  const published = parseDate(source.publishedAt);
+  const accessed = parseDate(source.fetchedAt)!;
+  const parts: string[] = [];
+  if (source.author) {
+    parts.push(period(source.author));
+  }
+  parts.push(`"${period(source.title)}"`);
+  parts.push(period(siteName(source)));
+  if (published) {
+    parts.push(`${MonthNames[published.month]} ${published.day}, ${published.year}.`);
+  } else {
+    parts.push(`Accessed ${MonthNames[accessed.month]} ${accessed.day}, ${accessed.year}.`);
+  }
+  parts.push(`${source.url}.`);
+  return parts.join(' ');
+}
+
+function formatIeee(source: Source): string {
+  const accessed = parseDate(source.fetchedAt)!;
+  const author = source.author ? `${source.author}, ` : '';
+  const accessedDate = `${ShortMonthNames[accessed.month]} ${String(accessed.day).padStart(2, '0')}, ${accessed.year}`;
+  return `${author}"${source.title}," *${siteName(source)}*. ` +
+    `Accessed: ${accessedDate}. [Online]. Available: ${source.url}`;
+}
+
+// Format a source for the numbered Sources section. The result uses markdown italics.
+export function formatCitation(source: Source, style: CitationStyle): string {
+  switch (style) {
+    case 'apa':
+      return formatApa(source);
+    case 'mla':
+      return formatMla(source);
+    case 'chicago':
+      return formatChicago(source);
+    case 'ieee':
+      return formatIeee(source);
+  }
+}
+
+// Helper function to escape the characters BibTeX treats specially
+function escapeBibTeX(text: string): string {
+  return text
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([{}&%$#_])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}');
+}
+
+// Helper function to build a readable, unique BibTeX key like examplecom2025_3
+function bibTeXKey(source: Source, id: number): string {
+  const site = siteName(source).toLowerCase().replace(/[^a-z0-9]/g, '');
+  const year = parseDate(source.publishedAt)?.year ?? 'nd';
+  return `${site || 'source'}${year}_${id}`;
+}
+
+export function toBibTeX(sources: Source[]): string {
+  return sources.map((source, i) => {
+    const published = parseDate(source.publishedAt);
+    const accessed = source.fetchedAt.split('T')[0];
+    const fields: [string, string][] = [
+      ['title', `{${escapeBibTeX(source.title)}}`],
+      ...(source.author ? [['author', `{${escapeBibTeX(source.author)}}`] as [string, string]] : []),
+      ['howpublished', `{\\url{${source.url}}}`],
+      ['organization', `{${escapeBibTeX(siteName(source))}}`],
+      ...(published
+        ? [
+          ['year', `{${published.year}}`],
+          ['month', `{${published.month + 1}}`],
+        ] as [string, string][]
+        : []),
+      ['url', `{${source.url}}`],
+      ['urldate', `{${accessed}}`],
+      ['note', `{Accessed: ${accessed}}`],
+    ];
+    const body = fields.map(([key, value]) => `  ${key} = ${value}`).join(',\n');
+    return `@misc{${bibTeXKey(source, i + 1)},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+}
+
+// Helper function to convert an ISO date to CSL date parts
+function cslDate(value: string | undefined) {
+  const date = parseDate(value);
+  return date ? { 'date-parts': [[date.year, date.month + 1, date.day]] } : undefined;
+}
+
+// CSL-JSON, as imported by Zotero, Mendeley and pandoc
+export function toCslJson(sources: Source[]): string {
+  const items = sources.map((source, i) => ({
+    id: `source-${i + 1}`,
+    type: 'webpage',
+    title: source.title,
+    URL: source.url,
+    'container-title': siteName(source),
+    ...(source.description ? { abstract: source.description } : {}),
+    ...(source.author ? { author: [{ literal: source.author }] } : {}),
+    ...(cslDate(source.publishedAt) ? { issued: cslDate(source.publishedAt) } : {}),
+    accessed: cslDate(source.fetchedAt),
+  }));
+  return JSON.stringify(items, null, 2) + '\n';
+}
+
+export const bibTeXRenderer: ReportRenderer = {
+  format: 'bibtex',
+  extension: '.bib',
+  description: 'BibTeX entries for the sources',
+  render: result => toBibTeX(result.report.sources),
+};
+
+export const cslJsonRenderer: ReportRenderer = {
+  format: 'csl-json',
+  extension: '.csl.json',
+  description: 'CSL-JSON for the sources, for Zotero and other reference managers',
+  render: result => toCslJson(result.report.sources),
+};
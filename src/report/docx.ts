@@ -0,0 +1,190 @@
+import {
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import type { ResearchResult } from '../core/types';
+import { formatCitation } from './citation-styles';
+import { DefaultSections, findingLabel, formatDisputes, formatTimeWindow } from './markdown';
+import { parseMarkdownBlocks } from './markdown-blocks';
+import type { RenderOptions, ReportRenderer } from './renderers';
+
+// Helper function to build a paragraph with a bold label
+function labelled(label: string, text: string): Paragraph {
+  return new Paragraph({
+    children: [new TextRun({ text: `${label} `, bold: true }), new TextRun(text)],
+  });
+}
+
+function heading(text: string, level: 1 | 2 | 3): Paragraph {
+  const headings = {
+    1: HeadingLevel.HEADING_1,
+    2: HeadingLevel.HEADING_2,
+    3: HeadingLevel.HEADING_3,
+  };
+  return new Paragraph({ text, heading: headings[level] });
+}
+
+function bullet(text: string): Paragraph {
+  return new Paragraph({ text, bullet: { level: 0 } });
+}
+
+// Helper function to drop the markdown emphasis Word can't show as is
+function plain(text: string): string {
+  return text.replace(/\*\*(.+?)\*\*/g, '$1').replace(/\*(.+?)\*/g, '$1').replace(/_\((.+?)\)_/g, '($1)');
+}
+
+// Helper function to turn a section the model wrote in markdown into Word
+// paragraphs and tables. Its headings sit below the section's own heading.
+function markdownToDocx(markdown: string): (Paragraph | Table)[] {
+  return parseMarkdownBlocks(markdown).flatMap((block): (Paragraph | Table)[] => {
+    switch (block.kind) {
+      case 'heading':
+        return [heading(plain(block.text), 3)];
+      case 'list':
+        return block.items.map((item, i) =>
+          block.ordered ? new Paragraph(`${i + 1}. ${plain(item)}`) : bullet(plain(item)),
+        );
+      case 'table': {
+        const row = (cells: string[], bold = false) => new TableRow({
+          children: cells.map(cell => new TableCell({
+            children: [new Paragraph({ children: [new TextRun({ text: plain(cell), bold })] })],
+          })),
+        });
+        return [new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [row(block.header, true), ...block.rows.map(cells => row(cells))],
+        })];
+      }
+      case 'paragraph':
+        return [new Paragraph({ text: plain(block.text), spacing: { after: 120 } })];
+    }
+  });
+}
+
+export async function formatDocxReport(
+  result: ResearchResult,
+  { citationStyle }: RenderOptions = {},
+): Promise<Uint8Array> {
+  const { brief, report } = result;
+  const children: (Paragraph | Table)[] = [];
+
+  children.push(new Paragraph({ text: 'Deep Research Report', heading: HeadingLevel.TITLE }));
+  children.push(labelled('Query:', result.query));
+  const timeWindow = formatTimeWindow(result);
+  if (timeWindow) {
+    children.push(labelled('Time window:', timeWindow));
+  }
+  children.push(labelled('Date:', new Date(result.timings.finishedAt).toLocaleString()));
+
+  if (brief && brief.clarifications.length > 0) {
+    children.push(heading('Research Brief', 1));
+    children.push(labelled('Scope:', brief.scope));
+    if (brief.priorities.length > 0) {
+      children.push(labelled('Priorities:', ''));
+      children.push(...brief.priorities.map(bullet));
+    }
+    if (brief.exclusions.length > 0) {
+      children.push(labelled('Out of scope:', ''));
+      children.push(...brief.exclusions.map(bullet));
+    }
+  }
+
+  // Templates list the search queries in their methodology section instead
+  if (!report.sections && result.levels.length > 0) {
+    children.push(heading('Search Queries Used', 1));
+    for (const level of result.levels) {
+      children.push(heading(`Level ${level.level} (breadth: ${level.breadth})`, 2));
+      children.push(...level.searchQueries.map((q, i) => new Paragraph(`${i + 1}. ${q}`)));
+    }
+  }
+
+  for (const section of report.sections ?? DefaultSections) {
+    if (section.kind === 'summary') {
+      children.push(heading(section.title, 1));
+      children.push(
+        ...report.executiveSummary
+          .split(/\n\s*\n/)
+          .filter(p => p.trim())
+          .map(p => new Paragraph({ text: p.trim(), spacing: { after: 120 } })),
+      );
+    } else if (section.kind === 'findings') {
+      if (report.keyFindings.length === 0) continue;
+      children.push(heading(section.title, 1));
+      report.keyFindings.forEach((finding, i) => {
+        const label = findingLabel(finding);
+        children.push(heading(`${i + 1}. ${finding.title}${label ? ` (${label})` : ''}`, 2));
+        children.push(...finding.details.map(bullet));
+      });
+    } else if (section.kind === 'disputes') {
+      const disputes = formatDisputes(report);
+      if (!disputes) continue;
+      children.push(heading(section.title, 1));
+      children.push(...markdownToDocx(disputes));
+    } else {
+      children.push(heading(section.title, 1));
+      children.push(...markdownToDocx(section.content));
+    }
+  }
+
+  if (report.sources.length > 0) {
+    children.push(heading('Sources', 1));
+    report.sources.forEach((source, i) => {
+      if (citationStyle) {
+        // Word has its own italics, so drop the markdown ones
+        const citation = formatCitation(source, citationStyle).replace(/\*/g, '');
+        children.push(new Paragraph(`[${i + 1}] ${citation}`));
+        return;
+      }
+      const retrieved = new Date(source.fetchedAt).toLocaleDateString();
+      children.push(new Paragraph({
+        children: [
+          new TextRun(`[${i + 1}] `),
+          new ExternalHyperlink({
+            link: source.url,
+            children: [new TextRun({ text: source.title, style: 'Hyperlink' })],
+          }),
+          new TextRun(` (retrieved ${retrieved}) ${source.url}`),
+        ],
+      }));
+    });
+  }
+
+  if (report.appendix && report.appendix.length > 0) {
+    children.push(heading('Appendix: Chunk Analyses', 1));
+    report.appendix.forEach((chunk, i) => {
+      const sources = chunk.sourceIds.map(id => `[${id}]`).join('');
+      children.push(heading(`Chunk ${i + 1} (Level ${chunk.level}, sources ${sources})`, 2));
+      children.push(new Paragraph({ text: chunk.summary, spacing: { after: 120 } }));
+      for (const finding of chunk.keyFindings) {
+        children.push(heading(finding.title, 3));
+        children.push(...finding.details.map(bullet));
+      }
+    });
+  }
+
+  if (result.error) {
+    children.push(heading('Errors', 1));
+    children.push(new Paragraph(`⚠️ ${result.error}`));
+  }
+
+  const document = new Document({
+    title: `Deep Research Report: ${result.query}`,
+    sections: [{ children }],
+  });
+  return Packer.toBuffer(document);
+}
+
+export const docxRenderer: ReportRenderer = {
+  format: 'docx',
+  extension: '.docx',
+  description: 'Word document',
+  render: formatDocxReport,
+};
@@ -0,0 +1,221 @@
+import { UnverifiedMarker } from '../utils/citations';
+import type { ResearchResult } from '../core/types';
+import { formatCitation } from './citation-styles';
+import { parseMarkdownBlocks } from './markdown-blocks';
+import { DefaultSections, findingLabel, formatDisputes, formatTimeWindow } from './markdown';
+import type { RenderOptions, ReportRenderer } from './renderers';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Helper function to render the bit of markdown the model uses in findings,
+// turning citation markers into links to the Sources section
+function inlineMarkdown(text: string): string {
+  return escapeHtml(text)
+    .replace(escapeHtml(UnverifiedMarker), '<em class="unverified">(unverified)</em>')
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>')
+    .replace(/\[(\d+)\]/g, '<a class="citation" href="#source-$1">[$1]</a>');
+}
+
+// Helper function to turn the URLs in escaped text into links
+function linkify(html: string): string {
+  return html.replace(/https?:\/\/[^\s<]+[^\s<.,;:)]/g, url => `<a href="${url}">${url}</a>`);
+}
+
+// Helper function to render text with blank lines between paragraphs
+function paragraphs(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .filter(p => p.trim())
+    .map(p => `<p>${inlineMarkdown(p.trim())}</p>`)
+    .join('\n');
+}
+
+// Helper function to render a section the model wrote in markdown. Its
+// headings sit below the section's own heading.
+function markdownToHtml(markdown: string): string {
+  return parseMarkdownBlocks(markdown).map(block => {
+    switch (block.kind) {
+      case 'heading': {
+        const level = Math.min(6, Math.max(3, block.level));
+        return `<h${level}>${inlineMarkdown(block.text)}</h${level}>`;
+      }
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        return `<${tag}>${block.items.map(item => `<li>${inlineMarkdown(item)}</li>`).join('')}</${tag}>`;
+      }
+      case 'table':
+        return '<table>' +
+          `<thead><tr>${block.header.map(cell => `<th>${inlineMarkdown(cell)}</th>`).join('')}</tr></thead>` +
+          `<tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${inlineMarkdown(cell)}</td>`).join('')}</tr>`).join('')}</tbody>` +
+          '</table>';
+      case 'paragraph':
+        return `<p>${inlineMarkdown(block.text)}</p>`;
+    }
+  }).join('\n');
+}
+
+const ScreenStyles = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; line-height: 1.6; color: #1f2328; max-width: 860px; margin: 2rem auto; padding: 0 1.5rem; }
+  h1 { border-bottom: 2px solid #d0d7de; padding-bottom: .3em; }
+  h2 { border-bottom: 1px solid #d0d7de; padding-bottom: .2em; margin-top: 2em; }
+  .meta { color: #59636e; }
+  .level { color: #59636e; font-size: .8em; font-weight: normal; }
+  a { color: #0969da; }
+  a.citation { text-decoration: none; font-size: .85em; }
+  .unverified { color: #9a6700; }
+  .error { background: #ffebe9; border: 1px solid #ff8182; padding: 1em; border-radius: 6px; }
+  ol.sources li { margin-bottom: .4em; word-break: break-word; }
+  ol.sources li:target { background: #fff8c5; }
+  table { border-collapse: collapse; margin: 1em 0; }
+  th, td { border: 1px solid #d0d7de; padding: .4em .7em; text-align: left; vertical-align: top; }
+  th { background: #f6f8fa; }
+`;
+
+// Print rules for turning the page into a PDF from the browser's print dialog
+const PrintStyles = `
+  @page { size: A4; margin: 2cm; }
+  body { max-width: none; margin: 0; padding: 0; font-size: 11pt; font-family: Georgia, "Times New Roman", serif; }
+  h1, h2, h3 { page-break-after: avoid; break-after: avoid; }
+  section.finding, ol.sources li, tr { page-break-inside: avoid; break-inside: avoid; }
+  h2.sources-heading, h2.appendix-heading { page-break-before: always; break-before: page; }
+  a { color: inherit; text-decoration: none; }
+  ol.sources a::after { content: " <" attr(href) ">"; font-size: .85em; }
+`;
+
+export function formatHtmlReport(
+  result: ResearchResult,
+  { print = false, citationStyle }: RenderOptions & { print?: boolean } = {},
+): string {
+  const { brief, report } = result;
+  const body: string[] = [];
+
+  body.push('<h1>Deep Research Report</h1>');
+  body.push(`<p class="meta"><strong>Query:</strong> ${escapeHtml(result.query)}<br>`);
+  const timeWindow = formatTimeWindow(result);
+  if (timeWindow) {
+    body.push(`<strong>Time window:</strong> ${escapeHtml(timeWindow)}<br>`);
+  }
+  body.push(`<strong>Date:</strong> ${escapeHtml(new Date(result.timings.finishedAt).toLocaleString())}</p>`);
+
+  if (brief && brief.clarifications.length > 0) {
+    body.push('<h2>Research Brief</h2>');
+    body.push(`<p><strong>Scope:</strong> ${escapeHtml(brief.scope)}</p>`);
+    if (brief.priorities.length > 0) {
+      body.push('<p><strong>Priorities:</strong></p>');
+      body.push(`<ul>${brief.priorities.map(p => `<li>${escapeHtml(p)}</li>`).join('')}</ul>`);
+    }
+    if (brief.exclusions.length > 0) {
+      body.push('<p><strong>Out of scope:</strong></p>');
+      body.push(`<ul>${brief.exclusions.map(e => `<li>${escapeHtml(e)}</li>`).join('')}</ul>`);
+    }
+  }
+
+  // Templates list the search queries in their methodology section instead
+  if (!report.sections && result.levels.length > 0) {
+    body.push('<h2>Search Queries Used</h2>');
+    for (const level of result.levels) {
+      body.push(`<h3>Level ${level.level} <span class="level">(breadth: ${level.breadth})</span></h3>`);
+      body.push(`<ol>${level.searchQueries.map(q => `<li>${escapeHtml(q)}</li>`).join('')}</ol>`);
+    }
+  }
+
+  for (const section of report.sections ?? DefaultSections) {
+    if (section.kind === 'summary') {
+      body.push(`<h2>${escapeHtml(section.title)}</h2>`);
+      body.push(paragraphs(report.executiveSummary));
+    } else if (section.kind === 'findings') {
+      if (report.keyFindings.length === 0) continue;
+      body.push(`<h2>${escapeHtml(section.title)}</h2>`);
+      report.keyFindings.forEach((finding, i) => {
+        const label = findingLabel(finding);
+        const level = label ? ` <span class="level">(${escapeHtml(label)})</span>` : '';
+        body.push('<section class="finding">');
+        body.push(`<h3>${i + 1}. ${escapeHtml(finding.title)}${level}</h3>`);
+        body.push(`<ul>${finding.details.map(d => `<li>${inlineMarkdown(d)}</li>`).join('')}</ul>`);
+        body.push('</section>');
+      });
+    } else if (section.kind === 'disputes') {
+      const disputes = formatDisputes(report);
+      if (!disputes) continue;
+      body.push(`<h2>${escapeHtml(section.title)}</h2>`);
+      body.push(markdownToHtml(disputes));
+    } else {
+      body.push(`<h2>${escapeHtml(section.title)}</h2>`);
+      body.push(markdownToHtml(section.content));
+    }
+  }
+
+  if (report.sources.length > 0) {
+    body.push('<h2 class="sources-heading">Sources</h2>');
+    body.push('<ol class="sources">');
+    report.sources.forEach((source, i) => {
+      if (citationStyle) {
+        body.push(`<li id="source-${i + 1}">${linkify(inlineMarkdown(formatCitation(source, citationStyle)))}</li>`);
+        return;
+      }
+      const retrieved = new Date(source.fetchedAt).toLocaleDateString();
+      body.push(
+        `<li id="source-${i + 1}"><a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a> ` +
+        `<span class="meta">(retrieved ${escapeHtml(retrieved)})</span></li>`,
+      );
+    });
+    body.push('</ol>');
+  }
+
+  if (report.appendix && report.appendix.length > 0) {
+    body.push('<h2 class="appendix-heading">Appendix: Chunk Analyses</h2>');
+    report.appendix.forEach((chunk, i) => {
+      const sources = chunk.sourceIds.map(id => `[${id}]`).join('');
+      body.push('<section class="chunk">');
+      body.push(`<h3>Chunk ${i + 1} <span class="level">(Level ${chunk.level}, sources ${inlineMarkdown(sources)})</span></h3>`);
+      body.push(paragraphs(chunk.summary));
+      for (const finding of chunk.keyFindings) {
+        body.push(`<p><strong>${escapeHtml(finding.title)}</strong></p>`);
+        body.push(`<ul>${finding.details.map(d => `<li>${inlineMarkdown(d)}</li>`).join('')}</ul>`);
+      }
+      body.push('</section>');
+    });
+  }
+
+  if (result.error) {
+    body.push('<h2>Errors</h2>');
+    body.push(`<p class="error">⚠️ ${escapeHtml(result.error)}</p>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`Deep Research Report: ${result.query}`)}</title>
+<style>${ScreenStyles}${print ? PrintStyles : ''}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+export const htmlRenderer: ReportRenderer = {
+  format: 'html',
+  extension: '.html',
+  description: 'Standalone styled HTML report',
+  render: (result, options) => formatHtmlReport(result, options),
+};
+
+// Open in a browser and print to PDF
+export const pdfHtmlRenderer: ReportRenderer = {
+  format: 'pdf-html',
+  extension: '.print.html',
+  description: 'HTML report with print styles, ready to print to PDF',
+  render: (result, options) => formatHtmlReport(result, { ...options, print: true }),
+};
@@ -0,0 +1,9 @@
+import type { ReportRenderer } from './renderers';
+
+// The full result: queries, findings, sources and timings
+export const jsonRenderer: ReportRenderer = {
+  format: 'json',
+  extension: '.json',
+  description: 'Machine-readable JSON of the full research result',
+  render: result => JSON.stringify(result, null, 2),
+};
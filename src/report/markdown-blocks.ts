@@ -0,0 +1,84 @@
+// The block-level markdown the model writes report sections in, for
+// renderers that don't output markdown
+export type MarkdownBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'table'; header: string[]; rows: string[][] }
+  | { kind: 'paragraph'; text: string };
+
+const HeadingPattern = /^(#{1,6})\s+(.*)$/;
+const ListItemPattern = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const TableSeparatorPattern = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+
+// Helper function to split a table row into its cells
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+// parse headings, lists, tables and paragraphs; inline markup is left to the renderer
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(HeadingPattern);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ kind: 'heading', level: heading[1]!.length, text: heading[2]!.trim() });
+      continue;
+    }
+
+    const item = line.match(ListItemPattern);
+    if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[1]!);
+      const last = blocks.at(-1);
+      // Items separated by blank lines still make one list
+      if (last?.kind === 'list' && last.ordered === ordered) {
+        last.items.push(item[2]!.trim());
+      } else {
+        blocks.push({ kind: 'list', ordered, items: [item[2]!.trim()] });
+      }
+      continue;
+    }
+
+    // Indented lines right after a list item continue it
+    const last = blocks.at(-1);
+    if (/^\s+\S/.test(line) && last?.kind === 'list' && paragraph.length === 0 && lines[i - 1]?.trim()) {
+      last.items[last.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+
+    if (line.trim().startsWith('|') && TableSeparatorPattern.test(lines[i + 1]?.trim() ?? '')) {
+      flushParagraph();
+      const rows: string[][] = [];
+      let j = i + 2;
+      while (j < lines.length && lines[j]!.trim().startsWith('|')) {
+        rows.push(tableCells(lines[j]!));
+        j++;
+      }
+      blocks.push({ kind: 'table', header: tableCells(line), rows });
+      i = j - 1;
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+  flushParagraph();
+  return blocks;
+}
@@ -0,0 +1,196 @@
+import type { KeyFinding, ReportSection, ResearchReport, ResearchResult, Source } from '../core/types';
+import { formatCitations } from '../utils/citations';
+import { formatDateRange } from '../utils/publish-date';
+import { formatCitation } from './citation-styles';
+import type { RenderOptions, ReportRenderer } from './renderers';
+
+// Sections of reports that weren't written from a template
+export const DefaultSections: ReportSection[] = [
+  { kind: 'summary', title: 'Executive Summary' },
+  { kind: 'findings', title: 'Key Findings' },
+  { kind: 'disputes', title: 'Disputed / Uncertain' },
+];
+
+// the level and confidence of a finding, e.g. "Level 1, high confidence"
+export function findingLabel(finding: KeyFinding): string {
+  const parts: string[] = [];
+  if (finding.level) parts.push(`Level ${finding.level}`);
+  if (finding.confidence) parts.push(`${finding.confidence} confidence`);
+  return parts.join(', ');
+}
+
+// render the points the sources disagree on and the findings only one site
+// backs, in markdown; undefined when there are none
+export function formatDisputes(report: ResearchReport): string | undefined {
+  const disputes = report.disputes ?? [];
+  const disputed = new Set(disputes.flatMap(d => d.findings));
+  const uncertain = report.keyFindings
+    .map((finding, i) => ({ finding, position: i + 1 }))
+    .filter(({ finding, position }) => finding.confidence === 'low' && !disputed.has(position));
+  if (disputes.length === 0 && uncertain.length === 0) {
+    return undefined;
+  }
+
+  const lines: string[] = [];
+  for (const dispute of disputes) {
+    lines.push(`### ${dispute.topic}`);
+    dispute.claims.forEach(({ claim, sources }) => lines.push(`- ${claim} ${formatCitations(sources)}`));
+    if (dispute.assessment) {
+      lines.push('', `**Assessment:** ${dispute.assessment}`);
+    }
+    if (dispute.findings.length > 0) {
+      lines.push('', `*Affects key findings ${dispute.findings.join(', ')}.*`);
+    }
+    lines.push('');
+  }
+  if (uncertain.length > 0) {
+    lines.push('### Backed by a single site');
+    uncertain.forEach(({ finding, position }) => lines.push(`- ${position}. ${finding.title}`));
+  }
+  return lines.join('\n').trim();
+}
+
+// the period a report covers: the date range the research was limited to,
+// and when its sources were published, e.g. "since 2025-01-01 (sources
+// published 2025-01-04 to 2025-06-20, 2 undated)"; undefined when neither is known
+export function formatTimeWindow(result: ResearchResult): string | undefined {
+  const { sources } = result.report;
+  const dates = sources.flatMap(s => (s.publishedAt ? [s.publishedAt.slice(0, 10)] : [])).sort();
+  if (!result.dateRange && dates.length === 0) {
+    return undefined;
+  }
+
+  const undated = sources.length - dates.length;
+  const published = dates.length === 0
+    ? 'sources undated'
+    : `sources published ${dates[0] === dates.at(-1) ? `on ${dates[0]}` : `${dates[0]} to ${dates.at(-1)}`}` +
+      (undated > 0 ? `, ${undated} undated` : '');
+  if (result.dateRange) {
+    return `${formatDateRange(result.dateRange)} (${published})`;
+  }
+  return published[0]!.toUpperCase() + published.slice(1);
+}
+
+export function formatReport(result: ResearchResult, { citationStyle }: RenderOptions = {}): string {
+  const sections = ['# Deep Research Report\n'];
+  
+  // Add query and timestamp
+  sections.push(`**Query:** ${result.query}`);
+  const timeWindow = formatTimeWindow(result);
+  if (timeWindow) {
+    sections.push(`**Time window:** ${timeWindow}`);
+  }
+  sections.push(`**Date:** ${new Date(result.timings.finishedAt).toLocaleString()}\n`);
+
+  // Add the research brief if the user answered clarifying questions
+  if (result.brief && result.brief.clarifications.length > 0) {
+    sections.push('## Research Brief');
+    sections.push(`**Scope:** ${result.brief.scope}`);
+    if (result.brief.priorities.length > 0) {
+      sections.push('\n**Priorities:**');
+      result.brief.priorities.forEach(p => sections.push(`- ${p}`));
+    }
+    if (result.brief.exclusions.length > 0) {
+      sections.push('\n**Out of scope:**');
+      result.brief.exclusions.forEach(e => sections.push(`- ${e}`));
+    }
+    sections.push('');
+  }
+  
+  // Add search queries if available, grouped by research level. Templates
+  // list them in their methodology section instead.
+  const templated = !!result.report.sections;
+  if (!templated && result.levels.length > 0) {
+    sections.push('## Search Queries Used');
+    result.levels.forEach(level => {
+      sections.push(`### Level ${level.level} (breadth: ${level.breadth})`);
+      level.searchQueries.forEach((q: string, i: number) => {
+        sections.push(`${i + 1}. ${q}`);
+      });
+      sections.push('');
+    });
+  } else if (!templated && result.searchQueries.length > 0) {
+    sections.push('## Search Queries Used');
+    result.searchQueries.forEach((q: string, i: number) => {
+      sections.push(`${i + 1}. ${q}`);
+    });
+    sections.push('');
+  }
+
+  // Add the report content
+  if (result.report) {
+    // Executive Summary and Key Findings, or the sections of the template
+    for (const section of result.report.sections ?? DefaultSections) {
+      if (section.kind === 'summary') {
+        sections.push(`## ${section.title}`);
+        sections.push(result.report.executiveSummary);
+        sections.push('');
+      } else if (section.kind === 'findings') {
+        if (result.report.keyFindings.length === 0) continue;
+        sections.push(`## ${section.title}`);
+        result.report.keyFindings.forEach((finding: KeyFinding, i: number) => {
+          const label = findingLabel(finding);
+          sections.push(`### ${i + 1}. ${finding.title}${label ? ` _(${label})_` : ''}`);
+          finding.details.forEach((detail: string) => {
+            sections.push(`- ${detail}`);
+          });
+          sections.push('');
+        });
+      } else if (section.kind === 'disputes') {
+        const disputes = formatDisputes(result.report);
+        if (!disputes) continue;
+        sections.push(`## ${section.title}`);
+        sections.push(disputes);
+        sections.push('');
+      } else {
+        sections.push(`## ${section.title}`);
+        sections.push(section.content);
+        sections.push('');
+      }
+    }
+
+    // Sources
+    if (result.report.sources.length > 0) {
+      sections.push('## Sources');
+      sections.push('_Citation markers like [1] in the findings refer to the numbered sources below._\n');
+      result.report.sources.forEach((source: Source, i: number) => {
+        if (citationStyle) {
+          sections.push(`${i + 1}. ${formatCitation(source, citationStyle)}`);
+          return;
+        }
+        const retrieved = new Date(source.fetchedAt).toLocaleDateString();
+        sections.push(`${i + 1}. [${source.title}](${source.url}) (retrieved ${retrieved})`);
+      });
+    }
+
+    // The chunk analyses the summary and findings were synthesized from
+    if (result.report.appendix && result.report.appendix.length > 0) {
+      sections.push('\n## Appendix: Chunk Analyses');
+      result.report.appendix.forEach((chunk, i) => {
+        const sources = chunk.sourceIds.map(id => `[${id}]`).join('');
+        sections.push(`### Chunk ${i + 1} _(Level ${chunk.level}, sources ${sources})_`);
+        sections.push(chunk.summary);
+        chunk.keyFindings.forEach(finding => {
+          sections.push(`\n**${finding.title}**`);
+          finding.details.forEach(detail => sections.push(`- ${detail}`));
+        });
+        sections.push('');
+      });
+    }
+  }
+
+  // Add error if present
+  if (result.error) {
+    sections.push('\n## Errors');
+    sections.push(`⚠️ ${result.error}`);
+  }
+
+  return sections.join('\n');
+}
+
+export const markdownRenderer: ReportRenderer = {
+  format: 'markdown',
+  extension: '.md',
+  description: 'Markdown report',
+  render: formatReport,
+};
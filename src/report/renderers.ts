@@ -0,0 +1,53 @@
+import type { ResearchResult } from '../core/types';
+import { bibTeXRenderer, cslJsonRenderer, type CitationStyle } from './citation-styles';
+import { docxRenderer } from './docx';
+import { htmlRenderer, pdfHtmlRenderer } from './html';
+import { jsonRenderer } from './json';
+import { markdownRenderer } from './markdown';
+
+export interface RenderOptions {
+  // Style of the Sources section; a plain linked list when not set
+  citationStyle?: CitationStyle;
+}
+
+// Turns a research result into a report file. All formats render from the
+// same typed result, so a new format only needs a renderer registered here.
+export interface ReportRenderer {
+  format: string;
+  // File extension, including the dot
+  extension: string;
+  description: string;
+  render(result: ResearchResult, options?: RenderOptions): string | Uint8Array | Promise<string | Uint8Array>;
+}
+
+const renderers = new Map<string, ReportRenderer>();
+
+export function registerRenderer(renderer: ReportRenderer) {
+  renderers.set(renderer.format, renderer);
+}
+
+export function getRenderer(format: string): ReportRenderer {
+  const renderer = renderers.get(format);
+  if (!renderer) {
+    throw new Error(`Unknown report format "${format}", expected one of ${listFormats().join(', ')}`);
+  }
+  return renderer;
+}
+
+export function listFormats(): string[] {
+  return [...renderers.keys()];
+}
+
+export async function renderReport(result: ResearchResult, format: string, options: RenderOptions = {}) {
+  return getRenderer(format).render(result, options);
+}
+
+[
+  markdownRenderer,
+  jsonRenderer,
+  htmlRenderer,
+  pdfHtmlRenderer,
+  docxRenderer,
+  bibTeXRenderer,
+  cslJsonRenderer,
+].forEach(registerRenderer);
@@ -0,0 +1,24 @@
+import type { ReportTemplate } from './types';
+
+// A short report for decision makers
+export const briefingTemplate: ReportTemplate = {
+  name: 'briefing',
+  description: 'One-page briefing: the bottom line, key findings and recommendations',
+  sections: [
+    {
+      kind: 'written',
+      id: 'bottom-line',
+      title: 'Bottom Line',
+      instructions: 'State the answer to the research question in two or three sentences, as directly as the findings allow.',
+      maxWords: 80,
+    },
+    { kind: 'findings', title: 'Key Findings' },
+    {
+      kind: 'written',
+      id: 'recommendations',
+      title: 'Recommendations',
+      instructions: 'Give the three most important recommendations that follow from the findings, as a numbered list.',
+      maxWords: 200,
+    },
+  ],
+};
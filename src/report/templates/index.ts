@@ -0,0 +1,63 @@
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { briefingTemplate } from './briefing';
+import { longFormTemplate } from './long-form';
+import type { ReportTemplate } from './types';
+
+export type { ReportTemplate, TemplateSection } from './types';
+
+const TemplateSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  sections: z.array(z.discriminatedUnion('kind', [
+    z.object({ kind: z.literal('summary'), title: z.string().min(1) }),
+    z.object({ kind: z.literal('findings'), title: z.string().min(1) }),
+    z.object({ kind: z.literal('disputes'), title: z.string().min(1) }),
+    z.object({ kind: z.literal('methodology'), title: z.string().min(1) }),
+    z.object({
+      kind: z.literal('written'),
+      id: z.string().min(1),
+      title: z.string().min(1),
+      instructions: z.string().min(1),
+      maxWords: z.number().int().positive(),
+    }),
+  ])).min(1),
+});
+
+const templates = new Map<string, ReportTemplate>();
+
+export function registerTemplate(template: ReportTemplate) {
+  templates.set(template.name, template);
+}
+
+export function getTemplate(name: string): ReportTemplate {
+  const template = templates.get(name);
+  if (!template) {
+    throw new Error(`Unknown report template "${name}", expected one of ${listTemplates().join(', ')} or a path to a template file`);
+  }
+  return template;
+}
+
+export function listTemplates(): string[] {
+  return [...templates.keys()];
+}
+
+// get a built-in template by name, or load one from a .ts or .js file whose
+// default export is a ReportTemplate
+export async function loadTemplate(nameOrPath: string): Promise<ReportTemplate> {
+  if (templates.has(nameOrPath) || !existsSync(nameOrPath)) {
+    return getTemplate(nameOrPath);
+  }
+
+  const module = await import(pathToFileURL(resolve(nameOrPath)).href);
+  const parsed = TemplateSchema.safeParse(module.default);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`);
+    throw new Error(`${nameOrPath} does not export a valid report template: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+[longFormTemplate, briefingTemplate].forEach(registerTemplate);
@@ -0,0 +1,48 @@
+import type { ReportTemplate } from './types';
+
+// A multi-page report, from the introduction to the recommendations
+export const longFormTemplate: ReportTemplate = {
+  name: 'long-form',
+  description: 'Multi-page report with introduction, methodology, themes, comparisons, limitations and recommendations',
+  sections: [
+    {
+      kind: 'written',
+      id: 'introduction',
+      title: 'Introduction',
+      instructions: 'Introduce the research question, why it matters and what the report covers. Do not present findings yet.',
+      maxWords: 250,
+    },
+    { kind: 'methodology', title: 'Methodology' },
+    { kind: 'summary', title: 'Executive Summary' },
+    {
+      kind: 'written',
+      id: 'themes',
+      title: 'Thematic Analysis',
+      instructions: 'Group the findings into three to six themes. Give each theme a "###" heading and discuss it in depth: what the sources say, how it connects to the other themes, and where the sources disagree.',
+      maxWords: 1500,
+    },
+    {
+      kind: 'written',
+      id: 'comparison',
+      title: 'Comparison',
+      instructions: 'Compare the main options, products, approaches or positions the research covers in a markdown table, with one row per option and one column per aspect, followed by a short paragraph on what the table shows. If the research does not compare anything, summarize the key figures in a table instead.',
+      maxWords: 500,
+    },
+    { kind: 'findings', title: 'Key Findings' },
+    { kind: 'disputes', title: 'Disputed / Uncertain' },
+    {
+      kind: 'written',
+      id: 'limitations',
+      title: 'Limitations',
+      instructions: 'Describe the limitations of this research: gaps in the sources, questions left open, claims supported by a single source, and information that may be outdated.',
+      maxWords: 300,
+    },
+    {
+      kind: 'written',
+      id: 'recommendations',
+      title: 'Recommendations',
+      instructions: 'Give concrete, prioritized recommendations that follow from the findings, as a numbered list with a sentence of reasoning each. Suggest further research where the findings are thin.',
+      maxWords: 400,
+    },
+  ],
+};
@@ -0,0 +1,27 @@
+// A section of a report template. Summary, findings, disputes and methodology
+// sections are filled from the research result as is; written sections are
+// written by the model from the gathered findings and learnings.
+export type TemplateSection =
+  | { kind: 'summary'; title: string }
+  | { kind: 'findings'; title: string }
+  // The points the sources disagree on, and the findings one site backs
+  | { kind: 'disputes'; title: string }
+  // The levels and search queries that were run, and when
+  | { kind: 'methodology'; title: string }
+  | {
+    kind: 'written';
+    // Identifies the section, e.g. in checkpoints
+    id: string;
+    title: string;
+    // What the section should cover and how, e.g. "a comparison table of ..."
+    instructions: string;
+    // Rough length limit of the section
+    maxWords: number;
+  };
+
+// Defines the sections of a report, in order
+export interface ReportTemplate {
+  name: string;
+  description: string;
+  sections: TemplateSection[];
+}
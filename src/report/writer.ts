@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import type { Checkpoint } from '../core/checkpoint';
+import { currentChunkBudget } from '../core/chunking';
+import { formatBrief } from '../core/clarification';
+import type { ReportSection, ResearchResult } from '../core/types';
+import { formatPassages, type VectorIndex } from '../core/vector-index';
+import { generateObject } from '../models/generate-object';
+import { countTokens } from '../models/providers/ai-models';
+import { hashText } from '../utils/cache';
+import { formatCitations, pruneCitations } from '../utils/citations';
+import { getLogger } from '../utils/logger';
+import { formatTimeWindow } from './markdown';
+import type { ReportTemplate, TemplateSection } from './templates';
+
+const SectionSchema = z.object({
+  content: z.string().min(1),
+});
+
+// Passages retrieved from the index for each written section
+const SectionPassages = 8;
+
+// Helper function to format a timestamp as e.g. "2025-01-01 12:00 UTC"
+function formatTime(time: number): string {
+  return `${new Date(time).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+// Helper function to format a duration as seconds or minutes
+function formatDuration(ms: number): string {
+  return ms < 60_000 ? `${Math.round(ms / 1000)}s` : `${(ms / 60_000).toFixed(1)} minutes`;
+}
+
+// describe how the research was done, in markdown: the levels and search
+// queries that were run, and when
+export function formatMethodology(result: ResearchResult): string {
+  const startedAt = new Date(result.timings.startedAt).getTime();
+  const lines = [
+    `The research started on ${formatTime(startedAt)} and took ${formatDuration(result.timings.durationMs)}. ` +
+    `It ran ${result.levels.length} ${result.levels.length === 1 ? 'level' : 'levels'} of web searches: ` +
+    `the first from the research ${result.brief ? 'brief' : 'query'}, and every later one from the learnings ` +
+    'and open questions of the level before, with half as many queries. The pages found were analysed ' +
+    `in chunks, and the analyses merged into the findings of this report, which cite ${result.report.sources.length} sources.`,
+  ];
+  const timeWindow = formatTimeWindow(result);
+  if (timeWindow) {
+    lines.push('', `**Time window:** ${timeWindow}`);
+  }
+
+  // Levels run one after the other, so each starts when the one before ended;
+  // levels dug into later know when they started
+  let levelStart = startedAt;
+  for (const level of result.levels) {
+    if (level.startedAt) {
+      levelStart = new Date(level.startedAt).getTime();
+    }
+    lines.push(
+      '',
+      `### Level ${level.level}${level.topic ? `: follow-up on ${level.topic}` : ''}`,
+      `Started ${formatTime(levelStart)}, took ${formatDuration(level.durationMs)}, ${level.searchQueries.length} search queries:`,
+      '',
+      ...level.searchQueries.map((q, i) => `${i + 1}. ${q}`),
+    );
+    levelStart += level.durationMs;
+  }
+  return lines.join('\n');
+}
+
+// Helper function to take lines from the front until the token budget runs out
+function takeWithin(lines: string[], budget: number): string[] {
+  const taken: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    used += countTokens(line) + 1;
+    if (used > budget) break;
+    taken.push(line);
+  }
+  return taken;
+}
+
+// build what report sections and follow-up answers are written from, within
+// the token budget. The findings are ranked, so the least important ones are
+// the first to go, then sources and learnings.
+export function researchContext(result: ResearchResult, maxTokens: number): string {
+  const { report } = result;
+  const timeWindow = formatTimeWindow(result);
+  const header = [
+    result.brief ? formatBrief(result.brief) : `Research query: ${result.query}`,
+    ...(timeWindow ? [`Time window: ${timeWindow}`] : []),
+    `\nExecutive summary:\n${report.executiveSummary}`,
+  ].join('\n');
+  let budget = maxTokens - countTokens(header);
+
+  const groups: { name: string; title: string; lines: string[] }[] = [
+    {
+      name: 'key findings',
+      title: 'Key findings (most important first)',
+      lines: report.keyFindings.map(f =>
+        `- ${f.title}${f.confidence ? ` (${f.confidence} confidence)` : ''}: ${f.details.join(' ')}`,
+      ),
+    },
+    {
+      name: 'disputes',
+      title: 'Points the sources disagree on',
+      lines: (report.disputes ?? []).map(d =>
+        `- ${d.topic}: ${d.claims.map(c => `${c.claim} ${formatCitations(c.sources)}`).join(' vs. ')}. ${d.assessment}`.trim(),
+      ),
+    },
+    { name: 'sources', title: 'Sources', lines: report.sources.map((s, i) => `[${i + 1}] ${s.title} (${s.url})`) },
+    { name: 'learnings', title: 'Learnings', lines: result.learnings.map(l => `- ${l}`) },
+  ];
+  const sections = [header];
+  for (const { name, title, lines } of groups) {
+    const taken = takeWithin(lines, budget - countTokens(title) - 2);
+    if (taken.length < lines.length) {
+      getLogger().log(`Leaving ${lines.length - taken.length} of ${lines.length} ${name} out of the report context to fit the model`);
+    }
+    if (taken.length > 0) {
+      sections.push(`${title}:\n${taken.join('\n')}`);
+      budget -= countTokens(sections.at(-1)!);
+    }
+  }
+  return sections.join('\n\n');
+}
+
+// Helper function to retrieve the passages of the sources that are most
+// relevant to a section, within the token budget
+async function sectionPassages(
+  index: VectorIndex,
+  query: string,
+  section: Extract<TemplateSection, { kind: 'written' }>,
+  maxTokens: number,
+): Promise<string> {
+  try {
+    const passages = await index.search(`${query}\n${section.title}: ${section.instructions}`, SectionPassages);
+    const text = formatPassages(passages, maxTokens);
+    return text ? `Passages from the sources relevant to this section:\n${text}\n\n` : '';
+  } catch (e) {
+    getLogger().error(`\nError searching the index for the "${section.title}" section:`, e);
+    return '';
+  }
+}
+
+// Helper function to write one section with the model
+async function writeSection(
+  section: Extract<TemplateSection, { kind: 'written' }>,
+  template: ReportTemplate,
+  context: string,
+  passages: string,
+  sourceCount: number,
+  checkpoint?: Checkpoint,
+): Promise<string> {
+  const others = template.sections.filter(s => s !== section).map(s => `"${s.title}"`);
+  const prompt = `You are writing the "${section.title}" section of a research report.
+
+${context}
+
+${passages}${others.length > 0 ? `The report also has these sections: ${others.join(', ')}. Only cover what this section is about.\n\n` : ''}Instructions for this section: ${section.instructions}
+
+Write at most ${section.maxWords} words of markdown. Do not start with the section title; use "###" headings for subsections if needed.
+Support factual statements with citation markers like [1] or [2][3] naming the numbered sources above, and only state what the research supports.
+
+Format your response as a JSON object like this:
+{
+  "content": "The section in markdown"
+}
+
+IMPORTANT: Return ONLY the JSON object, no other text.`;
+
+  const write = () => generateObject(SectionSchema, prompt);
+  const { content } = checkpoint
+    ? await checkpoint.step(`section:${section.id}:${hashText(prompt).slice(0, 16)}`, write)
+    : await write();
+  return pruneCitations(content.trim(), sourceCount);
+}
+
+// Writes a long-form report from a research result, filling the sections of
+// the template from the gathered findings and learnings, and from the passages
+// of the sources most relevant to each section when given the run's index.
+// Sections the model fails to write are left out.
+export async function writeReport(
+  result: ResearchResult,
+  template: ReportTemplate,
+  {
+    checkpoint,
+    maxTokens = currentChunkBudget(),
+    index,
+  }: {
+    checkpoint?: Checkpoint;
+    // Token budget of the research context in each section's prompt
+    maxTokens?: number;
+    index?: VectorIndex;
+  } = {},
+): Promise<ResearchResult> {
+  // A failed run has nothing to write from
+  if (result.error) {
+    return result;
+  }
+
+  getLogger().log(`\n✍️ Writing the ${template.name} report (${template.sections.length} sections)...`);
+  // A quarter of the budget goes to the passages, when there is an index to retrieve them from
+  const passageTokens = index && index.size() > 0 ? Math.floor(maxTokens / 4) : 0;
+  const context = researchContext(result, maxTokens - passageTokens);
+  const sections = await Promise.all(template.sections.map(async (section): Promise<ReportSection | undefined> => {
+    switch (section.kind) {
+      case 'summary':
+      case 'findings':
+      case 'disputes':
+        return { kind: section.kind, title: section.title };
+      case 'methodology':
+        return { kind: 'text', id: 'methodology', title: section.title, content: formatMethodology(result) };
+      case 'written':
+        try {
+          const passages = passageTokens > 0
+            ? await sectionPassages(index!, result.query, section, passageTokens)
+            : '';
+          const content = await writeSection(
+            section,
+            template,
+            context,
+            passages,
+            result.report.sources.length,
+            checkpoint,
+          );
+          return { kind: 'text', id: section.id, title: section.title, content };
+        } catch (e) {
+          getLogger().error(`\nError writing the "${section.title}" section, leaving it out:`, e);
+          return undefined;
+        }
+    }
+  }));
+
+  return {
+    ...result,
+    report: {
+      ...result.report,
+      template: template.name,
+      sections: sections.filter((s): s is ReportSection => s !== undefined),
+    },
+  };
+}
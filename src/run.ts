@@ -1,135 +1,263 @@
-import { createInterface } from 'readline';
+import { createInterface, type Interface } from 'readline';
+import {
+  CliUsageError,
+  parseCliArgs,
+  readAnswersFile,
+  Usage,
+  type CliOptions,
+} from './cli/args';
+import { chat, chatCommand } from './cli/chat';
+import { diffCommand, listCommand, showCommand } from './cli/history-commands';
+import { saveReports } from './cli/reports';
+import { createCheckpoint, loadCheckpoint, type Checkpoint, type CheckpointParams } from './core/checkpoint';
+import { clarifyResearch, generateResearchBrief } from './core/clarification';
+import { loadRun, recordRun } from './core/history';
 import { deepResearch } from './core/research-engine';
-import { saveToFile } from './utils/file';
+import { setVettingConfig, vettingConfigFromEnv } from './core/source-vetting';
+import { createVectorIndex } from './core/vector-index';
+import { formatReport } from './report/markdown';
+import { loadTemplate } from './report/templates';
+import { writeReport } from './report/writer';
+import { cacheConfigFromEnv, setCache } from './utils/cache';
+import { getLogger, setLogger, silentLogger } from './utils/logger';
+import { formatSchedulerStats, getScheduler } from './utils/scheduler';
+import { createRunId } from './utils/run-id';
 
-const rl = createInterface({
-  input: process.stdin,
-  output: process.stdout
-});
+// Created on first use, so non-interactive runs never touch stdin
+let rl: Interface | undefined;
 
-async function askQuestion(question: string): Promise<string> {
+// Reads a line from the terminal; undefined once the input ends (Ctrl-D)
+async function readLine(prompt: string): Promise<string | undefined> {
+  rl ??= createInterface({
+    input: process.stdin,
+    output: process.stdout
+  });
+  const readline = rl;
   return new Promise((resolve) => {
-    rl.question(question + '\n> ', (answer) => {
+    const onClose = () => resolve(undefined);
+    readline.once('close', onClose);
+    readline.question(prompt, (answer) => {
+      readline.off('close', onClose);
       resolve(answer.trim());
     });
   });
 }
 
-function formatReport(query: string, result: any): string {
-  const sections = ['# Deep Research Report\n'];
-  
-  // Add query and timestamp
-  sections.push(`**Query:** ${query}`);
-  sections.push(`**Date:** ${new Date().toLocaleString()}\n`);
-  
-  // Add search queries if available
-  if (result.searchQueries?.length > 0) {
-    sections.push('## Search Queries Used');
-    result.searchQueries.forEach((q: string, i: number) => {
-      sections.push(`${i + 1}. ${q}`);
-    });
-    sections.push('');
-  }
-
-  // Add the report content
-  if (result.report) {
-    // Executive Summary
-    sections.push('## Executive Summary');
-    sections.push(result.report.executiveSummary);
-    sections.push('');
-
-    // Key Findings
-    if (result.report.keyFindings?.length > 0) {
-      sections.push('## Key Findings');
-      result.report.keyFindings.forEach((finding: any, i: number) => {
-        sections.push(`### ${i + 1}. ${finding.title}`);
-        finding.details.forEach((detail: string) => {
-          sections.push(`- ${detail}`);
-        });
-        sections.push('');
-      });
-    }
+async function askQuestion(question: string): Promise<string> {
+  return (await readLine(question + '\n> ')) ?? '';
+}
 
-    // Sources
-    if (result.report.sources?.length > 0) {
-      sections.push('## Sources');
-      result.report.sources.forEach((source: string, i: number) => {
-        sections.push(`${i + 1}. ${source}`);
-      });
-    }
+// Runs the clarification stage and returns the research brief, taking the
+// answers from the answers file if given, otherwise asking the user
+async function clarify(query: string, options: CliOptions, interactive: boolean) {
+  if (!options.clarify) {
+    return undefined;
+  }
+
+  const answersFile = options.answersFile ? await readAnswersFile(options.answersFile) : undefined;
+  if (answersFile?.kind === 'paired') {
+    return generateResearchBrief({ query, clarifications: answersFile.pairs });
+  }
+  if (!answersFile && !interactive) {
+    getLogger().log('\nNo terminal to ask clarifying questions on, skipping them...');
+    return undefined;
+  }
+
+  getLogger().log('\n🤔 Let me ask you a few questions to better understand your research needs...');
+
+  const answers = answersFile ? [...answersFile.answers] : undefined;
+  return clarifyResearch({
+    query,
+    // Answers from a file are used in order until they run out
+    ask: async question => answers ? answers.shift() : askQuestion(`\n${question}`),
+  });
+}
+
+// Runs the research, saves the reports and records the run in the history.
+// Every finished step is checkpointed, so the run can be resumed if it fails.
+async function research(
+  params: CheckpointParams,
+  options: CliOptions,
+  checkpoint: Checkpoint = createCheckpoint(createRunId(), params),
+): Promise<number> {
+  // Load the template first, so a broken one fails before the research starts
+  const { template: templateName, ...researchParams } = params;
+  const template = templateName ? await loadTemplate(templateName) : undefined;
+
+  getLogger().log('\n🔍 Thanks! Now I\'ll start the deep research with your context...');
+
+  // Run the research with the brief
+  const index = createVectorIndex();
+  let result = await deepResearch({
+    ...researchParams,
+    runId: checkpoint.id,
+    checkpoint,
+    concurrency: options.concurrency,
+    index,
+    logger: getLogger(),
+  });
+  if (template) {
+    result = await writeReport(result, template, { checkpoint, index });
+  }
+  if (checkpoint.restoredSteps() > 0) {
+    getLogger().log(`\n♻️ Restored ${checkpoint.restoredSteps()} finished steps from the checkpoint`);
+  }
+
+  // Render and save the report in every requested format
+  const filepaths = await saveReports(result, options);
+
+  try {
+    await recordRun({ result, breadth: params.breadth, depth: params.depth, reports: filepaths, index });
+  } catch (e) {
+    // The reports are saved, so a broken history only costs the history entry
+    getLogger().error('\nError recording the run in the research history:', e);
+  }
+
+  if (options.quiet) {
+    process.stdout.write(filepaths.map(f => `${f}\n`).join(''));
+  } else {
+    // Display in terminal
+    getLogger().log('\n📝 Research Results\n');
+    getLogger().log(formatReport(result, { citationStyle: options.citationStyle }));
+    getLogger().log(`\n🗂️ Saved as run ${result.id}`);
+  }
+
+  // Show where the run spent its time waiting on provider quotas
+  const stats = formatSchedulerStats(getScheduler().stats());
+  if (stats) {
+    getLogger().log(`\n⏱️ Provider usage\n${stats}`);
+  }
+
+  // Keep the checkpoint of runs that did not finish cleanly, so they can be resumed
+  const finished = !result.error && await checkpoint.finish();
+  if (!finished) {
+    getLogger().error(`\n💾 Some steps did not finish; continue with: npm start -- --resume ${result.id}`);
   }
 
-  // Add error if present
   if (result.error) {
-    sections.push('\n## Errors');
-    sections.push(`⚠️ ${result.error}`);
+    getLogger().error(`\n❌ ${result.error}`);
+    return 1;
+  }
+
+  if (options.chat) {
+    await chat({ result, index, template, breadth: params.breadth, depth: params.depth }, options, readLine);
   }
+  return 0;
+}
+
+// Continues an interrupted run from its checkpoint
+async function resume(options: CliOptions): Promise<number> {
+  const checkpoint = await loadCheckpoint(options.resume!);
+  getLogger().log(`\n⏯️ Resuming research ${checkpoint.id}: ${checkpoint.params.query}`);
+  return research(checkpoint.params, options, checkpoint);
+}
 
-  return sections.join('\n');
+// Researches the query of a past run again, with its brief and parameters
+async function rerun(options: CliOptions): Promise<number> {
+  const record = await loadRun(options.runIds[0]!);
+  getLogger().log(`\n🔁 Re-running research ${record.id}: ${record.query}`);
+  return research({
+    query: record.query,
+    brief: record.result.brief,
+    breadth: options.breadth ?? record.breadth,
+    depth: options.depth ?? record.depth,
+    dateRange: options.dateRange ?? record.result.dateRange,
+    seeds: options.seeds ?? record.result.seeds,
+    template: options.template ?? record.result.report.template,
+  }, options);
 }
 
-async function main() {
+async function main(options: CliOptions): Promise<number> {
   try {
+    switch (options.command) {
+      case 'list':
+        return await listCommand(options);
+      case 'show':
+        return await showCommand(options);
+      case 'diff':
+        return await diffCommand(options);
+      case 'rerun':
+        return await rerun(options);
+      case 'chat':
+        return await chatCommand(options, readLine);
+    }
+    if (options.resume) {
+      return await resume(options);
+    }
+
+    // Ask for anything not given on the command line when running interactively
+    const interactive = !options.query;
+
     // Get research query
-    const query = await askQuestion('\n📚 What would you like to research?');
+    const query = options.query ?? await askQuestion('\n📚 What would you like to research?');
     if (!query) {
-      console.error('Please provide a research query');
-      process.exit(1);
+      getLogger().error('Please provide a research query');
+      return 1;
     }
 
     // Get research parameters
-    const breadthStr = await askQuestion('\n🌳 Research breadth (3-10, default: 6):');
-    const depthStr = await askQuestion('\n🏊‍♂️ Research depth (1-5, default: 3):');
-
-    const breadth = Math.min(10, Math.max(1, parseInt(breadthStr) || 6));
-    const depth = Math.min(5, Math.max(1, parseInt(depthStr) || 3));
-
-    // Generate initial feedback questions
-    console.log('\n🤔 Let me ask you a few questions to better understand your research needs...');
-    
-    // Run initial research to get feedback questions
-    const initialResult = await deepResearch(query, 1, 1);
-    
-    // Ask feedback questions and collect answers
-    const answers: string[] = [];
-    if (initialResult.feedbackQuestions?.length > 0) {
-      for (const question of initialResult.feedbackQuestions) {
-        const answer = await askQuestion(`\n${question}`);
-        answers.push(answer);
-      }
-    }
+    const breadthStr = options.breadth === undefined && interactive
+      ? await askQuestion('\n🌳 Research breadth (3-10, default: 6):')
+      : '';
+    const depthStr = options.depth === undefined && interactive
+      ? await askQuestion('\n🏊‍♂️ Research depth (1-5, default: 3):')
+      : '';
 
-    // Build enhanced query with context from answers
-    const enhancedQuery = `
-Original Query: ${query}
+    const breadth = options.breadth ?? Math.min(10, Math.max(1, parseInt(breadthStr) || 6));
+    const depth = options.depth ?? Math.min(5, Math.max(1, parseInt(depthStr) || 3));
 
-Context from user:
-${initialResult.feedbackQuestions?.map((q, i) => `Q: ${q}\nA: ${answers[i]}`).join('\n')}
-    `.trim();
+    const brief = await clarify(query, options, interactive || !!process.stdin.isTTY);
 
-    console.log('\n🔍 Thanks! Now I\'ll start the deep research with your context...');
+    return await research({ query, brief, breadth, depth, dateRange: options.dateRange, seeds: options.seeds, template: options.template }, options);
+  } catch (e) {
+    getLogger().error('\n❌ An error occurred:', e);
+    return 1;
+  } finally {
+    rl?.close();
+  }
+}
 
-    // Run the research with enhanced query
-    const result = await deepResearch(enhancedQuery, breadth, depth);
+function run() {
+  // The CLI reports progress on the terminal; the library is silent unless asked
+  setLogger(console);
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (e) {
+    if (e instanceof CliUsageError) {
+      getLogger().error(`${e.message}\n\n${Usage}`);
+      process.exit(2);
+    }
+    throw e;
+  }
 
-    // Format the results
-    const formattedReport = formatReport(query, result);
-    
-    // Save to file
-    const sanitizedQuery = query.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 50);
-    const filename = `research-${sanitizedQuery}-${new Date().toISOString().split('T')[0]}.md`;
-    await saveToFile(formattedReport, filename);
+  if (options.help) {
+    getLogger().log(Usage);
+    return;
+  }
 
-    // Display in terminal
-    console.log('\n📝 Research Results\n');
-    console.log(formattedReport);
+  if (!options.cache) {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+  }
+  if (options.allowDomains || options.denyDomains || options.maxSources) {
+    const vetting = vettingConfigFromEnv();
+    setVettingConfig({
+      ...vetting,
+      allowDomains: options.allowDomains ?? vetting.allowDomains,
+      denyDomains: options.denyDomains ?? vetting.denyDomains,
+      maxDocuments: options.maxSources ?? vetting.maxDocuments,
+    });
+  }
 
-  } catch (e) {
-    console.error('\n❌ An error occurred:', e);
-  } finally {
-    rl.close();
+  // Only errors and the report path are printed in quiet mode
+  if (options.quiet) {
+    setLogger({ ...silentLogger, warn: console.warn, error: console.error });
   }
+
+  main(options).then(code => {
+    process.exitCode = code;
+  });
 }
 
 // Run the program
-main();
+run();
@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { getLogger } from './logger';
+
+// What is cached: search results and model responses
+export type CacheNamespace = 'search' | 'llm';
+
+export interface CacheConfig {
+  // When false, nothing is read from or written to the cache
+  enabled: boolean;
+  directory: string;
+  // How long entries stay fresh, per namespace
+  ttlMs: Record<CacheNamespace, number>;
+}
+
+export interface Cache {
+  config: CacheConfig;
+  get<T>(namespace: CacheNamespace, key: unknown): Promise<T | undefined>;
+  set(namespace: CacheNamespace, key: unknown, value: unknown): Promise<void>;
+  // Returns the cached value for the key, or runs fn and caches its result.
+  // Failures are not cached, nor are values `keep` rejects; cached values it
+  // rejects are misses.
+  wrap<T>(
+    namespace: CacheNamespace,
+    key: unknown,
+    fn: () => Promise<T>,
+    options?: { keep?: (value: T) => boolean },
+  ): Promise<T>;
+}
+
+type CacheEntry = {
+  key: unknown;
+  // ISO timestamp
+  createdAt: string;
+  value: unknown;
+};
+
+const Hour = 60 * 60 * 1000;
+
+// hash a text, e.g. a prompt, for use in a cache key
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Helper function to serialize a key with sorted object keys, so equal keys
+// always serialize the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// the content address of a cache key
+export function cacheKey(key: unknown): string {
+  return hashText(stableStringify(key));
+}
+
+export function createCache(config: CacheConfig): Cache {
+  // Helper function to get the path of an entry, sharded by the first two hex digits
+  const entryPath = (namespace: CacheNamespace, hash: string) =>
+    join(config.directory, namespace, hash.slice(0, 2), `${hash}.json`);
+
+  const cache: Cache = {
+    config,
+    async get<T>(namespace: CacheNamespace, key: unknown) {
+      if (!config.enabled) return undefined;
+      try {
+        const entry: CacheEntry = JSON.parse(await readFile(entryPath(namespace, cacheKey(key)), 'utf8'));
+        const age = Date.now() - new Date(entry.createdAt).getTime();
+        return age <= config.ttlMs[namespace] ? entry.value as T : undefined;
+      } catch {
+        // Missing or unreadable entries are misses
+        return undefined;
+      }
+    },
+    async set(namespace: CacheNamespace, key: unknown, value: unknown) {
+      if (!config.enabled) return;
+      const path = entryPath(namespace, cacheKey(key));
+      const entry: CacheEntry = { key, createdAt: new Date().toISOString(), value };
+      try {
+        await mkdir(dirname(path), { recursive: true });
+        // Write to a temporary file first, so readers never see a partial entry
+        const temporary = `${path}.${process.pid}.tmp`;
+        await writeFile(temporary, JSON.stringify(entry));
+        await rename(temporary, path);
+      } catch (e) {
+        getLogger().error('\nError writing cache entry:', e);
+      }
+    },
+    async wrap<T>(
+      namespace: CacheNamespace,
+      key: unknown,
+      fn: () => Promise<T>,
+      { keep = () => true }: { keep?: (value: T) => boolean } = {},
+    ) {
+      const cached = await cache.get<T>(namespace, key);
+      if (cached !== undefined && keep(cached)) {
+        return cached;
+      }
+      const value = await fn();
+      if (keep(value)) {
+        await cache.set(namespace, key, value);
+      }
+      return value;
+    },
+  };
+  return cache;
+}
+
+// Helper function to read a TTL in hours from the environment
+function hoursFromEnv(name: string, fallback: number): number {
+  const hours = Number(process.env[name] || fallback);
+  return (Number.isFinite(hours) && hours >= 0 ? hours : fallback) * Hour;
+}
+
+// read the cache config from the environment (CACHE_DIR, CACHE_TTL_SEARCH_HOURS,
+// CACHE_TTL_LLM_HOURS; CACHE_DISABLED=true turns the cache off)
+export function cacheConfigFromEnv(): CacheConfig {
+  return {
+    enabled: process.env.CACHE_DISABLED !== 'true',
+    directory: process.env.CACHE_DIR ?? join(process.cwd(), '.cache'),
+    ttlMs: {
+      search: hoursFromEnv('CACHE_TTL_SEARCH_HOURS', 24),
+      llm: hoursFromEnv('CACHE_TTL_LLM_HOURS', 24 * 30),
+    },
+  };
+}
+
+let defaultCache: Cache | undefined;
+
+// the cache shared by every module, configured from the environment on first use
+export function getCache(): Cache {
+  defaultCache ??= createCache(cacheConfigFromEnv());
+  return defaultCache;
+}
+
+export function setCache(cache: Cache | CacheConfig) {
+  defaultCache = 'wrap' in cache ? cache : createCache(cache);
+}
@@ -0,0 +1,64 @@
+// Matches citation markers like [1], [1][3] or [1, 3]
+const CitationPattern = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Marker appended to details that no retrieved document supports
+export const UnverifiedMarker = '_(unverified)_';
+
+// extract the numeric ids of all citation markers in a text, in order of appearance
+export function extractCitations(text: string): number[] {
+  const ids: number[] = [];
+  for (const match of text.matchAll(CitationPattern)) {
+    for (const id of match[1]!.split(',')) {
+      const n = parseInt(id.trim(), 10);
+      if (!ids.includes(n)) {
+        ids.push(n);
+      }
+    }
+  }
+  return ids;
+}
+
+// remove all citation markers from a text, and the unverified marker
+export function stripCitations(text: string): string {
+  return text.split(UnverifiedMarker).join('').replace(CitationPattern, '').replace(/\s+([.,;:])/g, '$1').replace(/\s{2,}/g, ' ').trim();
+}
+
+export function formatCitations(ids: number[]): string {
+  return ids.map(id => `[${id}]`).join('');
+}
+
+// rewrite the citation markers of a text using the given id mapping, e.g. from
+// the per-chunk numbering the model saw to the run-wide Sources numbering.
+// Ids missing from the mapping are dropped; if nothing valid is left, the text
+// is flagged as unverified, once even if it already was.
+export function remapCitations(
+  text: string,
+  mapping: Map<number, number>,
+): { text: string; citations: number[] } {
+  const citations = [
+    ...new Set(
+      extractCitations(text)
+        .map(id => mapping.get(id))
+        .filter((id): id is number => id !== undefined),
+    ),
+  ];
+  const body = stripCitations(text);
+
+  if (citations.length === 0) {
+    return { text: `${body} ${UnverifiedMarker}`, citations };
+  }
+  return { text: `${body} ${formatCitations(citations)}`, citations };
+}
+
+// drop the ids of citation markers that don't point at one of `sourceCount`
+// sources, keeping the markers in place. Unlike remapCitations this leaves
+// the layout of the text alone, so it works on markdown with tables and lists.
+export function pruneCitations(text: string, sourceCount: number): string {
+  return text.replace(CitationPattern, (_, ids: string) => {
+    const valid = ids
+      .split(',')
+      .map(id => parseInt(id.trim(), 10))
+      .filter(id => id >= 1 && id <= sourceCount);
+    return formatCitations(valid);
+  });
+}
@@ -1,27 +1,38 @@
 import { mkdir, writeFile } from 'fs/promises';
 import { join } from 'path';
+import { getLogger } from './logger';
 
-export async function saveToFile(content: string, filename: string) {
+export async function saveToFile(
+  content: string | Uint8Array,
+  filename: string,
+  {
+    directory = join(process.cwd(), 'output'),
+    extension = '.md',
+  }: {
+    directory?: string;
+    extension?: string;
+  } = {},
+) {
   try {
     // Create output directory if it doesn't exist
-    const outputDir = join(process.cwd(), 'output');
+    const outputDir = directory;
     await mkdir(outputDir, { recursive: true });
 
     // Generate a filename with timestamp if not provided
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const finalFilename = filename || `research-${timestamp}.md`;
+    const finalFilename = filename || `research-${timestamp}${extension}`;
     
-    // Ensure .md extension
-    const fileWithExt = finalFilename.endsWith('.md') ? finalFilename : `${finalFilename}.md`;
+    // Ensure the extension
+    const fileWithExt = finalFilename.endsWith(extension) ? finalFilename : `${finalFilename}${extension}`;
     const filepath = join(outputDir, fileWithExt);
 
     // Save the file
     await writeFile(filepath, content);
-    console.log(`\n✨ Report saved to: ${filepath}`);
+    getLogger().log(`\n✨ Report saved to: ${filepath}`);
     
     return filepath;
   } catch (error) {
-    console.error('\n❌ Error saving file:', error);
+    getLogger().error('\n❌ Error saving file:', error);
     throw error;
   }
 } 
\ No newline at end of file
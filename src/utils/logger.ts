@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Where progress lines, warnings and errors go; `console` is one
+export type Logger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+// Reports nothing, the default for library use
+export const silentLogger: Logger = {
+  log() {},
+  warn() {},
+  error() {},
+};
+
+let defaultLogger: Logger = silentLogger;
+// The logger of the research run the current call belongs to, if it has one
+const runLogger = new AsyncLocalStorage<Logger>();
+
+// the logger of the current research run, or else the default one
+export function getLogger(): Logger {
+  return runLogger.getStore() ?? defaultLogger;
+}
+
+// use a logger by default, e.g. `console` in the CLI
+export function setLogger(logger: Logger) {
+  defaultLogger = logger;
+}
+
+// run fn with everything it calls, synchronously or not, logging to logger
+export function withLogger<T>(logger: Logger, fn: () => T): T {
+  return runLogger.run(logger, fn);
+}
@@ -0,0 +1,78 @@
+// Meta tags pages put their publication date in, most reliable first
+const DateMetaNames = [
+  'article:published_time',
+  'og:published_time',
+  'datepublished',
+  'publishdate',
+  'pubdate',
+  'dc.date',
+  'dc.date.issued',
+  'dcterms.created',
+  'parsely-pub-date',
+  'sailthru.date',
+  'date',
+];
+
+const MonthNames = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+
+// Dates as pages write them: 2025-03-14, March 14th, 2025, 14 March 2025
+const DatePattern = `(\\d{4}-\\d{2}-\\d{2}(?:[T ][\\d:.]+(?:Z|[+-]\\d{2}:?\\d{2})?)?|${MonthNames} \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}|\\d{1,2}(?:st|nd|rd|th)? ${MonthNames},? \\d{4})`;
+
+// parse a date as written on a page into an ISO timestamp; undefined when it
+// isn't a plausible publication date
+export function normalizeDate(value: string | undefined, now = Date.now()): string | undefined {
+  if (!value) return undefined;
+  let date = value.trim().replace(/(\d)(st|nd|rd|th)\b/, '$1').replace(/,(?=\s*\d{4})/, '');
+  // Written-out dates would otherwise be read in the local timezone
+  if (/[a-z]/i.test(date) && !/\d:\d/.test(date)) {
+    date += ' UTC';
+  }
+  const time = Date.parse(date);
+  // Pages dated in the future or before the web are parse errors, not news
+  if (Number.isNaN(time) || time > now + 24 * 60 * 60 * 1000 || new Date(time).getUTCFullYear() < 1990) {
+    return undefined;
+  }
+  return new Date(time).toISOString();
+}
+
+// Helper function to find the content of the first meta tag with one of the
+// given names, whichever attribute order the page uses
+function metaContent(html: string, names: string[]): string | undefined {
+  const tags = html.match(/<meta\s[^>]*>/gi) ?? [];
+  const attributes = tags.map(tag => {
+    const name = tag.match(/(?:property|name|itemprop)\s*=\s*["']([^"']+)["']/i)?.[1]?.toLowerCase();
+    const content = tag.match(/content\s*=\s*["']([^"']+)["']/i)?.[1];
+    return { name, content };
+  });
+  for (const name of names) {
+    const content = attributes.find(a => a.name === name && a.content)?.content;
+    if (content) return content;
+  }
+  return undefined;
+}
+
+// find when a page was published: from its meta tags, JSON-LD or <time>
+// element for HTML, from front matter for markdown, and otherwise from a
+// "Published on ..." line near the top of the text. Returns an ISO timestamp.
+export function extractPublishDate(page: string, now = Date.now()): string | undefined {
+  const candidates = [
+    metaContent(page, DateMetaNames),
+    page.match(/"datePublished"\s*:\s*"([^"]+)"/)?.[1],
+    page.match(/<time[^>]*\sdatetime\s*=\s*["']([^"']+)["']/i)?.[1],
+    page.match(/^---\n([\s\S]*?)\n---/)?.[1]?.match(/^(?:date|published):\s*["']?([^"'\n]+?)["']?\s*$/m)?.[1],
+    // Only the top of the text: dates further down are usually about something else
+    page.slice(0, 3000).match(new RegExp(`(?:published|posted|updated|last updated|date)(?: on)?:?\\s+${DatePattern}`, 'i'))?.[1],
+  ];
+  for (const candidate of candidates) {
+    const date = normalizeDate(candidate, now);
+    if (date) return date;
+  }
+  return undefined;
+}
+
+// describe a date range, e.g. "2025-01-01 to 2025-06-30" or "since 2025-01-01"
+export function formatDateRange({ since, until }: { since?: string; until?: string }): string {
+  if (since && until) return `${since} to ${until}`;
+  if (since) return `since ${since}`;
+  return until ? `until ${until}` : 'any time';
+}
@@ -0,0 +1,7 @@
+import { randomBytes } from 'crypto';
+
+// create a sortable, human-readable run id like 20250115-083012-a1b2
+export function createRunId(date = new Date()): string {
+  const timestamp = date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${timestamp}-${randomBytes(2).toString('hex')}`;
+}
@@ -0,0 +1,302 @@
+import pLimit from 'p-limit';
+import { getLogger } from './logger';
+
+// Limits for one provider. Omitted per-minute limits are not enforced.
+export interface ProviderQuota {
+  // Requests in flight at the same time
+  concurrency: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface SchedulerConfig {
+  // Quotas by provider name, e.g. gemini or firecrawl
+  quotas: Record<string, ProviderQuota>;
+  // Used for providers without a quota of their own
+  defaultQuota: ProviderQuota;
+  // Attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Rate limits that reset later than this fail right away instead of waiting
+  maxRetryAfterMs: number;
+}
+
+export interface ProviderStats {
+  requests: number;
+  retries: number;
+  rateLimited: number;
+  failures: number;
+  // Time spent waiting for quota, on rate limits and in backoff
+  throttledMs: number;
+}
+
+export interface Scheduler {
+  config: SchedulerConfig;
+  // Runs a request against a provider's quota, retrying failures with backoff
+  run<T>(provider: string, fn: () => Promise<T>, options?: { tokens?: number }): Promise<T>;
+  stats(): Record<string, ProviderStats>;
+}
+
+// Thrown by providers for unsuccessful HTTP responses, so the scheduler can
+// tell rate limits from other failures and honor Retry-After
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+// parse a Retry-After header, given in seconds or as an HTTP date
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// build a RequestError from an unsuccessful fetch response
+export async function requestError(service: string, response: Response): Promise<RequestError> {
+  return new RequestError(
+    `${service} request failed (${response.status}): ${await response.text()}`,
+    response.status,
+    parseRetryAfter(response.headers.get('retry-after')),
+  );
+}
+
+// Helper function to get the HTTP status of an error from any provider SDK
+function errorStatus(e: unknown): number | undefined {
+  const error = e as { status?: unknown; statusCode?: unknown; message?: unknown };
+  if (typeof error?.status === 'number') return error.status;
+  if (typeof error?.statusCode === 'number') return error.statusCode;
+
+  const message = String(error?.message ?? '');
+  // e.g. "[429 Too Many Requests]" (Gemini) or "failed (503)"
+  const match = message.match(/[[(](\d{3})[\])\s]/);
+  if (match) return Number(match[1]);
+  if (/quota|rate limit|too many requests/i.test(message)) return 429;
+  return undefined;
+}
+
+// Helper function to get how long a rate-limited provider asked us to wait
+function errorRetryAfter(e: unknown, now: number): number | undefined {
+  if (e instanceof RequestError && e.retryAfterMs !== undefined) return e.retryAfterMs;
+
+  const message = String((e as { message?: unknown })?.message ?? '');
+  // Gemini: "retryDelay":"30s" or "Please retry in 29.5s"
+  const delay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"|retry in (\d+(?:\.\d+)?)s/i);
+  if (delay) return Number(delay[1] ?? delay[2]) * 1000;
+  // Firecrawl: "(resets at Wed Jan 15 2025 08:30:00 GMT+0000)"
+  const reset = message.match(/resets at ([^)]+)/);
+  if (reset) return parseRetryAfter(reset[1], now);
+  return undefined;
+}
+
+// Helper function to tell whether a failed request may succeed when repeated
+function isRetryable(status: number | undefined): boolean {
+  // Bad requests, auth errors and missing resources fail the same way again
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+// A token bucket refilling continuously up to `perMinute`
+type Bucket = { perMinute: number; available: number; updatedAt: number };
+
+// Helper function to take `amount` from a bucket, returning how long to wait
+// before the amount is available. The bucket may go negative: waiting callers
+// have reserved their share.
+function take(bucket: Bucket, amount: number, now: number): number {
+  bucket.available = Math.min(
+    bucket.perMinute,
+    bucket.available + ((now - bucket.updatedAt) * bucket.perMinute) / 60_000,
+  );
+  bucket.updatedAt = now;
+  // A single request larger than the whole bucket only waits for a full one
+  bucket.available -= Math.min(amount, bucket.perMinute);
+  return bucket.available >= 0 ? 0 : (-bucket.available * 60_000) / bucket.perMinute;
+}
+
+export function createScheduler(
+  config: SchedulerConfig,
+  {
+    now = Date.now,
+    sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)),
+    random = Math.random,
+  }: {
+    now?: () => number;
+    sleep?: (ms: number) => Promise<void>;
+    random?: () => number;
+  } = {},
+): Scheduler {
+  type ProviderState = {
+    quota: ProviderQuota;
+    limit: ReturnType<typeof pLimit>;
+    requests?: Bucket;
+    tokens?: Bucket;
+    // Set when the provider rate-limited us, pausing all its requests
+    blockedUntil: number;
+    stats: ProviderStats;
+  };
+  const providers = new Map<string, ProviderState>();
+
+  // Helper function to get the state of a provider, created on first use
+  const providerState = (name: string): ProviderState => {
+    let state = providers.get(name);
+    if (!state) {
+      const quota = config.quotas[name] ?? config.defaultQuota;
+      const bucket = (perMinute?: number) =>
+        perMinute ? { perMinute, available: perMinute, updatedAt: now() } : undefined;
+      state = {
+        quota,
+        limit: pLimit(quota.concurrency),
+        requests: bucket(quota.requestsPerMinute),
+        tokens: bucket(quota.tokensPerMinute),
+        blockedUntil: 0,
+        stats: { requests: 0, retries: 0, rateLimited: 0, failures: 0, throttledMs: 0 },
+      };
+      providers.set(name, state);
+    }
+    return state;
+  };
+
+  // Helper function to sleep while counting the time as throttled
+  const throttle = async (state: ProviderState, ms: number) => {
+    if (ms <= 0) return;
+    state.stats.throttledMs += ms;
+    await sleep(ms);
+  };
+
+  // Helper function to wait until the provider's quota allows another request
+  const acquire = async (state: ProviderState, tokens: number) => {
+    await throttle(state, state.blockedUntil - now());
+    const wait = Math.max(
+      state.requests ? take(state.requests, 1, now()) : 0,
+      state.tokens && tokens > 0 ? take(state.tokens, tokens, now()) : 0,
+    );
+    await throttle(state, wait);
+  };
+
+  return {
+    config,
+    run<T>(provider: string, fn: () => Promise<T>, { tokens = 0 }: { tokens?: number } = {}) {
+      const state = providerState(provider);
+      return state.limit(async () => {
+        for (let attempt = 0; ; attempt++) {
+          await acquire(state, tokens);
+          state.stats.requests++;
+          try {
+            return await fn();
+          } catch (e) {
+            const status = errorStatus(e);
+            const rateLimited = status === 429;
+            const retryAfter = rateLimited ? errorRetryAfter(e, now()) : undefined;
+            if (rateLimited) {
+              state.stats.rateLimited++;
+            }
+            if (
+              attempt >= config.retries ||
+              !isRetryable(status) ||
+              (retryAfter !== undefined && retryAfter > config.maxRetryAfterMs)
+            ) {
+              state.stats.failures++;
+              throw e;
+            }
+
+            // Exponential backoff with full jitter, longer for rate limits,
+            // and never shorter than what the provider asked for
+            const backoff = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt * (rateLimited ? 4 : 1));
+            const wait = Math.max(retryAfter ?? 0, Math.round(backoff * (0.5 + random() / 2)));
+            state.stats.retries++;
+            getLogger().log(`${rateLimited ? 'Rate limit hit' : 'Request failed'} on ${provider}, waiting ${(wait / 1000).toFixed(1)}s before retry...`);
+            if (rateLimited) {
+              // Pause every request to the provider, not just this one; the
+              // next attempt waits for the pause in acquire
+              state.blockedUntil = Math.max(state.blockedUntil, now() + wait);
+            } else {
+              await throttle(state, wait);
+            }
+          }
+        }
+      });
+    },
+    stats() {
+      return Object.fromEntries([...providers].map(([name, state]) => [name, { ...state.stats }]));
+    },
+  };
+}
+
+// Free-tier friendly defaults; raise them with RATE_LIMIT_<PROVIDER> on paid plans
+const DefaultQuotas: Record<string, ProviderQuota> = {
+  gemini: { concurrency: 2, requestsPerMinute: 15, tokensPerMinute: 1_000_000 },
+  openai: { concurrency: 4, requestsPerMinute: 500, tokensPerMinute: 200_000 },
+  ollama: { concurrency: 1 },
+  firecrawl: { concurrency: 2, requestsPerMinute: 10 },
+  searxng: { concurrency: 2, requestsPerMinute: 30 },
+  local: { concurrency: 4 },
+};
+
+// Helper function to parse a quota like "rpm=15,tpm=1000000,concurrency=2"
+function parseQuota(value: string, base: ProviderQuota): ProviderQuota {
+  const quota = { ...base };
+  for (const part of value.split(',')) {
+    const [name, raw] = part.split('=').map(s => s.trim());
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0) continue;
+    if (name === 'rpm') quota.requestsPerMinute = n || undefined;
+    if (name === 'tpm') quota.tokensPerMinute = n || undefined;
+    if (name === 'concurrency' && n >= 1) quota.concurrency = Math.floor(n);
+  }
+  return quota;
+}
+
+// read the scheduler config from the environment. Quotas are overridden per
+// provider with e.g. RATE_LIMIT_GEMINI="rpm=60,tpm=4000000,concurrency=4";
+// 0 turns a per-minute limit off.
+export function schedulerConfigFromEnv(): SchedulerConfig {
+  const quotas = { ...DefaultQuotas };
+  for (const [name, value] of Object.entries(process.env)) {
+    const match = name.match(/^RATE_LIMIT_([A-Z0-9_]+)$/);
+    if (match && value) {
+      const provider = match[1]!.toLowerCase();
+      quotas[provider] = parseQuota(value, quotas[provider] ?? { concurrency: 2 });
+    }
+  }
+  return {
+    quotas,
+    defaultQuota: { concurrency: 2 },
+    retries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60_000,
+    maxRetryAfterMs: 5 * 60_000,
+  };
+}
+
+// render the stats as one line per provider, for the end of a run
+export function formatSchedulerStats(stats: Record<string, ProviderStats>): string {
+  return Object.entries(stats)
+    .map(([name, s]) => {
+      const parts = [`${s.requests} requests`];
+      if (s.retries > 0) parts.push(`${s.retries} retries`);
+      if (s.rateLimited > 0) parts.push(`${s.rateLimited} rate limited`);
+      if (s.failures > 0) parts.push(`${s.failures} failed`);
+      parts.push(`${(s.throttledMs / 1000).toFixed(1)}s throttled`);
+      return `${name}: ${parts.join(', ')}`;
+    })
+    .join('\n');
+}
+
+let defaultScheduler: Scheduler | undefined;
+
+// the scheduler shared by every module, so quotas hold across all of them
+export function getScheduler(): Scheduler {
+  defaultScheduler ??= createScheduler(schedulerConfigFromEnv());
+  return defaultScheduler;
+}
+
+export function setScheduler(scheduler: Scheduler | SchedulerConfig) {
+  defaultScheduler = 'run' in scheduler ? scheduler : createScheduler(scheduler);
+}
@@ -0,0 +1,8 @@
+// Words too common to say anything about what a text is about, for the local
+// search and embeddings
+export const StopWords = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'not', 'of', 'to', 'in', 'on', 'by',
+  'for', 'with', 'from', 'about', 'into', 'than', 'vs', 'is', 'are', 'was',
+  'were', 'been', 'has', 'have', 'had', 'do', 'does', 'can', 'will', 'that',
+  'this', 'which', 'what', 'how', 'its', 'their', 'they', 'you', 'also', 'more',
+]);
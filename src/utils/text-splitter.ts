@@ -1,16 +1,24 @@
+import { getLogger } from './logger';
+
 interface TextSplitterParams {
   chunkSize: number;
 
   chunkOverlap: number;
+
+  // Measures chunkSize and chunkOverlap, in characters by default; pass a
+  // token counter to split by tokens
+  lengthFunction: (text: string) => number;
 }
 
 abstract class TextSplitter implements TextSplitterParams {
   chunkSize = 1000;
   chunkOverlap = 200;
+  lengthFunction = (text: string) => text.length;
 
   constructor(fields?: Partial<TextSplitterParams>) {
     this.chunkSize = fields?.chunkSize ?? this.chunkSize;
     this.chunkOverlap = fields?.chunkOverlap ?? this.chunkOverlap;
+    this.lengthFunction = fields?.lengthFunction ?? this.lengthFunction;
     if (this.chunkOverlap >= this.chunkSize) {
       throw new Error('Cannot have chunkOverlap >= chunkSize');
     }
@@ -43,10 +51,10 @@ abstract class TextSplitter implements TextSplitterParams {
     const currentDoc: string[] = [];
     let total = 0;
     for (const d of splits) {
-      const _len = d.length;
+      const _len = this.lengthFunction(d);
       if (total + _len >= this.chunkSize) {
         if (total > this.chunkSize) {
-          console.warn(
+          getLogger().warn(
             `Created a chunk of size ${total}, +
 which is longer than the specified ${this.chunkSize}`,
           );
@@ -63,7 +71,7 @@ which is longer than the specified ${this.chunkSize}`,
             total > this.chunkOverlap ||
             (total + _len > this.chunkSize && total > 0)
           ) {
-            total -= currentDoc[0]!.length;
+            total -= this.lengthFunction(currentDoc[0]!);
             currentDoc.shift();
           }
         }
@@ -122,7 +130,7 @@ export class RecursiveCharacterTextSplitter
     // Now go merging things, recursively splitting longer texts.
     let goodSplits: string[] = [];
     for (const s of splits) {
-      if (s.length < this.chunkSize) {
+      if (this.lengthFunction(s) < this.chunkSize) {
         goodSplits.push(s);
       } else {
         if (goodSplits.length) {
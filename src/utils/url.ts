@@ -0,0 +1,9 @@
+// the hostname of a URL without its www. prefix, e.g. example.com for
+// https://www.example.com/page; undefined when the URL can't be parsed
+export function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
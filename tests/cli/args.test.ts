@@ -0,0 +1,125 @@
+import assert from 'node:assert';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { CliUsageError, parseCliArgs, readAnswersFile } from '../../src/cli/args';
+
+// Helper function to assert that arguments are rejected with a usage error
+function assertUsageError(argv: string[], message: RegExp) {
+  assert.throws(() => parseCliArgs(argv), (e: Error) => e instanceof CliUsageError && message.test(e.message));
+}
+
+describe('parseCliArgs', () => {
+  it('Should default to researching with clarifying questions and a markdown report', () => {
+    const options = parseCliArgs([]);
+    assert.equal(options.command, 'research');
+    assert.deepEqual(options.runIds, []);
+    assert.deepEqual(options.formats, ['markdown']);
+    assert.equal(options.clarify, true);
+    assert.equal(options.cache, true);
+    assert.equal(options.quiet, false);
+  });
+
+  it('Should parse research options', () => {
+    const options = parseCliArgs([
+      '-q', '  Solid-state batteries ', '-b', '4', '-d', '2', '-j', '8',
+      '--since', '2025-01-01', '--until', '2025-03-31',
+      '--seed-url', 'https://example.com/paper.pdf', '--seed-file', 'notes.md', '--seed-file', 'more.md',
+      '-f', 'markdown,json,markdown', '--allow-domain', 'Energy.gov, nature.com', '--max-sources', '10',
+      '--no-clarify', '--no-cache',
+    ]);
+    assert.equal(options.query, 'Solid-state batteries');
+    assert.equal(options.breadth, 4);
+    assert.equal(options.depth, 2);
+    assert.equal(options.concurrency, 8);
+    assert.deepEqual(options.dateRange, { since: '2025-01-01', until: '2025-03-31' });
+    assert.deepEqual(options.seeds, { urls: ['https://example.com/paper.pdf'], files: ['notes.md', 'more.md'] });
+    assert.deepEqual(options.formats, ['markdown', 'json']);
+    assert.deepEqual(options.allowDomains, ['energy.gov', 'nature.com']);
+    assert.equal(options.maxSources, 10);
+    assert.equal(options.clarify, false);
+    assert.equal(options.cache, false);
+  });
+
+  it('Should add the reference manager formats to a citation style', () => {
+    const options = parseCliArgs(['-c', 'APA']);
+    assert.equal(options.citationStyle, 'apa');
+    assert.deepEqual(options.formats, ['markdown', 'bibtex', 'csl-json']);
+  });
+
+  it('Should parse history commands and their run ids', () => {
+    assert.deepEqual(parseCliArgs(['show', '2025']).runIds, ['2025']);
+    assert.deepEqual(parseCliArgs(['diff', 'a', 'b']).runIds, ['a', 'b']);
+    assert.equal(parseCliArgs(['list', '-q', 'battery']).query, 'battery');
+    assertUsageError(['diff', 'a'], /diff needs 2 run ids, got 1/);
+    assertUsageError(['list', 'a'], /list does not take a run id/);
+    assertUsageError(['delete', 'a'], /Unknown command "delete"/);
+  });
+
+  it('Should reject invalid values', () => {
+    assertUsageError(['-b', '11'], /--breadth must be a whole number between 1 and 10, got "11"/);
+    assertUsageError(['-d', '1.5'], /--depth must be a whole number/);
+    assertUsageError(['-f', 'pdf'], /--format must be one or more of/);
+    assertUsageError(['-c', 'harvard'], /--citation-style must be one of/);
+    assertUsageError(['--since', '2025-1-1'], /--since must be a date like 2025-01-31/);
+    assertUsageError(['--since', '2025-02-30'], /--since must be a date like 2025-01-31/);
+    assertUsageError(['--since', '2025-13-01'], /--since must be a date like 2025-01-31/);
+    assertUsageError(['--until', '2025-00-10'], /--until must be a date like 2025-01-31/);
+    assertUsageError(['--since', '2025-03-01', '--until', '2025-02-01'], /must not be after --until/);
+    assertUsageError(['--seed-url', 'ftp://example.com/a.pdf'], /--seed-url must be an http\(s\) URL/);
+    assertUsageError(['--unknown'], /Unknown option '--unknown'/);
+  });
+
+  it('Should reject conflicting options', () => {
+    assertUsageError(['--resume', 'abc', '-q', 'x'], /cannot be used with --query/);
+    assertUsageError(['--resume', 'abc', 'list'], /cannot be used with list/);
+    assertUsageError(['-a', 'answers.txt', '--no-clarify'], /--answers-file and --no-clarify cannot be used together/);
+    assertUsageError(['--chat', '--quiet'], /cannot be used with --chat/);
+    assertUsageError(['chat', 'abc', '--quiet'], /cannot be used with chat/);
+  });
+});
+
+describe('readAnswersFile', () => {
+  let directory = '';
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'answers-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  // Helper function to write an answers file and read it back
+  async function read(name: string, content: string) {
+    const path = join(directory, name);
+    await writeFile(path, content);
+    return readAnswersFile(path);
+  }
+
+  it('Should read answers in question order from a JSON array or lines of text', async () => {
+    assert.deepEqual(await read('answers.json', '["Europe", "Since 2020"]'), {
+      kind: 'ordered',
+      answers: ['Europe', 'Since 2020'],
+    });
+    assert.deepEqual(await read('answers.txt', 'Europe\n\n  Since 2020  \n'), {
+      kind: 'ordered',
+      answers: ['Europe', 'Since 2020'],
+    });
+  });
+
+  it('Should read question and answer pairs from a JSON object', async () => {
+    assert.deepEqual(await read('pairs.json', '{"Which region?": "Europe", "How many years?": 5}'), {
+      kind: 'paired',
+      pairs: [
+        { question: 'Which region?', answer: 'Europe' },
+        { question: 'How many years?', answer: '5' },
+      ],
+    });
+  });
+
+  it('Should reject JSON that is neither', async () => {
+    await assert.rejects(read('bad.json', '[1, 2]'), CliUsageError);
+  });
+});
@@ -0,0 +1,160 @@
+import assert from 'node:assert';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { parseCliArgs } from '../../src/cli/args';
+import { chat, ChatHelp, type ReadLine } from '../../src/cli/chat';
+import { listRuns } from '../../src/core/history';
+import type { ResearchResult } from '../../src/core/types';
+import { createVectorIndex } from '../../src/core/vector-index';
+import { setSearchProvider } from '../../src/core/web-search';
+import { createLocalEmbedder } from '../../src/models/embeddings';
+import { setLLMProvider } from '../../src/models/providers/ai-models';
+import { cacheConfigFromEnv, setCache } from '../../src/utils/cache';
+import { setLogger, silentLogger } from '../../src/utils/logger';
+
+const result: ResearchResult = {
+  id: '20250101-000000-abcd',
+  query: 'Solid-state batteries',
+  searchQueries: ['solid state battery electrolytes'],
+  levels: [{ level: 1, breadth: 1, searchQueries: ['solid state battery electrolytes'], durationMs: 60_000 }],
+  learnings: ['Sulfide electrolytes reach 25 mS/cm'],
+  report: {
+    executiveSummary: 'Solid-state batteries are close to production.',
+    keyFindings: [
+      { title: 'Electrolytes', details: ['Sulfide electrolytes conduct best [1]'], level: 1, confidence: 'medium' },
+    ],
+    sources: [
+      { url: 'https://example.com/sulfide', title: 'Sulfide review', fetchedAt: '2025-01-01T00:00:00.000Z' },
+    ],
+  },
+  timings: {
+    startedAt: '2025-01-01T12:00:00.000Z',
+    finishedAt: '2025-01-01T12:01:00.000Z',
+    durationMs: 60_000,
+  },
+};
+
+// Reads the given lines, then ends the input
+function scriptedInput(lines: string[]): ReadLine {
+  return async () => lines.shift();
+}
+
+describe('chat', () => {
+  let directory: string;
+  const historyDir = process.env.HISTORY_DIR;
+  const output: string[] = [];
+  const queryPrompts: string[] = [];
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'chat-'));
+    process.env.HISTORY_DIR = join(directory, 'history');
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setLLMProvider({
+      name: 'fake-llm',
+      model: 'fake',
+      async generateText(prompt: string) {
+        if (prompt.includes('unique search queries')) {
+          queryPrompts.push(prompt);
+          return JSON.stringify({ queries: ['pilot lines'] });
+        }
+        if (prompt.includes('sources contradict each other')) {
+          return JSON.stringify({ disputes: [] });
+        }
+        if (prompt.includes('partial analyses')) {
+          // Keep every finding as it is
+          const findings = [...prompt.matchAll(/^F(\d+)\. (.+)\n  - (.+)$/gm)];
+          return JSON.stringify({
+            executiveSummary: 'Production is starting.',
+            keyFindings: findings.map(([, id, title, detail]) => ({ title, details: [detail], mergedFrom: [`F${id}`] })),
+          });
+        }
+        if (prompt.includes('follow-up questions about a finished research project')) {
+          return JSON.stringify({ answer: 'Sulfides conduct best [1].' });
+        }
+        return JSON.stringify({
+          summary: 'Pilot lines',
+          keyFindings: [{ title: 'Production', details: ['Pilot lines open in 2026 [1]'] }],
+          learnings: ['Pilot lines open in 2026'],
+        });
+      },
+    });
+    setSearchProvider({
+      name: 'fake-search',
+      async search(query: string) {
+        return [{
+          url: 'https://example.com/pilot',
+          title: 'Pilot lines',
+          content: Array.from({ length: 200 }, (_, i) => `Pilot line ${i} for solid-state cells opens in 2026.`).join(' '),
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+          query,
+        }];
+      },
+    });
+  });
+
+  after(async () => {
+    if (historyDir === undefined) delete process.env.HISTORY_DIR;
+    else process.env.HISTORY_DIR = historyDir;
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    output.length = 0;
+    queryPrompts.length = 0;
+    setLogger({ ...silentLogger, log: (...args: unknown[]) => output.push(args.join(' ')) });
+  });
+
+  afterEach(() => setLogger(silentLogger));
+
+  // Chats about the result with the given input, returning what was printed
+  async function chatWith(lines: string[], argv: string[] = []) {
+    const options = parseCliArgs(['chat', result.id, ...argv]);
+    const index = createVectorIndex({ embedder: createLocalEmbedder() });
+    await chat({ result, index, breadth: 1, depth: 1 }, options, scriptedInput(lines));
+    return output.join('\n');
+  }
+
+  it('Should answer questions and list the findings and commands', async () => {
+    const printed = await chatWith(['Which electrolyte conducts best?', '/findings', '/help', '/nope']);
+    assert.match(printed, /Sulfides conduct best \[1\]\.\n\n\[1\] Sulfide review \(https:\/\/example\.com\/sulfide\)/);
+    assert.match(printed, /^1\. Electrolytes \(medium confidence\)$/m);
+    assert.ok(printed.includes(ChatHelp));
+    assert.match(printed, /Unknown command \/nope/);
+  });
+
+  it('Should dig into a finding by its number, and ask before leaving without saving', async () => {
+    const lines = ['/dig 9', '/dig 1', '/exit', '/exit', 'never read'];
+    const printed = await chatWith(lines);
+
+    assert.match(printed, /There is no finding 9/);
+    // The finding's details, without citations, are the dig's topic
+    assert.match(queryPrompts[0]!, /Electrolytes: Sulfide electrolytes conduct best\n/);
+    assert.match(printed, /Added 1 sources; the report now has 2 key findings:\n1\. Electrolytes.*\n2\. Production/);
+    assert.match(printed, /The saved report doesn't have what the digs found yet/);
+    assert.deepEqual(lines, ['never read']);
+  });
+
+  it('Should ask again before leaving when something came between the two /exit', async () => {
+    const lines = ['/dig pilot lines', '/exit', '/findings', '/exit', '/exit', 'never read'];
+    const printed = await chatWith(lines);
+    assert.equal(printed.match(/The saved report doesn't have what the digs found yet/g)?.length, 2);
+    assert.deepEqual(lines, ['never read']);
+  });
+
+  it('Should save the report with what the digs found and record it in the history', async () => {
+    const lines = ['/dig pilot lines', '/export', '/exit', 'never read'];
+    const printed = await chatWith(lines, ['--output', join(directory, 'report.md')]);
+
+    const saved = printed.match(/💾 Saved (.+)/)![1]!;
+    const report = await readFile(saved, 'utf8');
+    assert.match(report, /Pilot lines open in 2026/);
+    assert.match(printed, new RegExp(`Updated run ${result.id} in the history`));
+    const [entry] = await listRuns();
+    assert.equal(entry!.id, result.id);
+    assert.equal(entry!.sourceCount, 2);
+    // Nothing is unsaved after the export, so /exit leaves right away
+    assert.deepEqual(lines, ['never read']);
+  });
+});
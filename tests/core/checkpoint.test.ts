@@ -0,0 +1,53 @@
+import assert from 'node:assert';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createCheckpoint, loadCheckpoint } from '../../src/core/checkpoint';
+
+const params = { query: 'solid state batteries', breadth: 2, depth: 1 };
+
+describe('checkpoint', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'checkpoints-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('Should restore finished steps and run the others again', async () => {
+    const checkpoint = createCheckpoint('20250101-000000-aaaa', params, directory);
+    await checkpoint.step('L1:queries', async () => ['a', 'b']);
+    await checkpoint.step('L1:search:a', async () => [], documents => documents.length > 0);
+    await assert.rejects(checkpoint.step('L1:chunk:1', async () => {
+      throw new Error('429 quota exceeded');
+    }));
+    assert.equal(await checkpoint.finish(), false);
+
+    const resumed = await loadCheckpoint('20250101', directory);
+    assert.deepEqual(resumed.params, params);
+    let calls = 0;
+    const run = async () => {
+      calls++;
+      return ['fresh'];
+    };
+    assert.deepEqual(await resumed.step('L1:queries', run), ['a', 'b']);
+    assert.deepEqual(await resumed.step('L1:search:a', run), ['fresh']);
+    assert.deepEqual(await resumed.step('L1:chunk:1', run), ['fresh']);
+    assert.equal(calls, 2);
+    assert.equal(resumed.restoredSteps(), 1);
+
+    assert.equal(await resumed.finish(), true);
+    assert.deepEqual(await readdir(directory), []);
+  });
+
+  it('Should reject unknown and ambiguous run ids', async () => {
+    await createCheckpoint('20250102-000000-aaaa', params, directory).step('x', async () => 1);
+    await createCheckpoint('20250102-000000-bbbb', params, directory).step('x', async () => 1);
+    await assert.rejects(loadCheckpoint('20250102', directory), /ambiguous/);
+    await assert.rejects(loadCheckpoint('1999', directory), /No checkpoint found/);
+  });
+});
@@ -0,0 +1,87 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { chunkDocuments, chunkTokenBudget, createChunker, currentChunkBudget, splitDocument } from '../../src/core/chunking';
+import { setLLMProvider } from '../../src/models/providers/ai-models';
+import type { SearchDocument } from '../../src/core/web-search';
+import { countTokens } from '../../src/models/providers/ai-models';
+
+// Helper function to build a document of paragraphs of three numbered sentences
+function document(name: string, paragraphs: number): SearchDocument {
+  const content = Array.from({ length: paragraphs }, (_, p) =>
+    Array.from({ length: 3 }, (_, s) => `${name} paragraph ${p} sentence ${s} is about batteries.`).join(' '),
+  ).join('\n\n');
+  return {
+    url: `https://example.com/${name}`,
+    title: name,
+    content,
+    fetchedAt: '2025-01-01T00:00:00.000Z',
+    query: 'batteries',
+  };
+}
+
+describe('chunkTokenBudget', () => {
+  it('Should leave room for the prompt and stay within bounds', () => {
+    assert.equal(chunkTokenBudget(8192), 4096);
+    assert.equal(chunkTokenBudget(1_048_576), 32_000);
+    assert.equal(chunkTokenBudget(2048), 1000);
+  });
+
+  it('Should use the context window of the current provider', () => {
+    const generateText = async () => '';
+    setLLMProvider({ name: 'fake-llm', model: 'fake', contextWindow: 8192, generateText });
+    assert.equal(currentChunkBudget(), 4096);
+    // Providers that don't declare one are assumed to have a 32k window
+    setLLMProvider({ name: 'fake-llm', model: 'fake', generateText });
+    assert.equal(currentChunkBudget(), 32_000 - 4096);
+  });
+});
+
+describe('splitDocument', () => {
+  it('Should keep short documents whole', () => {
+    const pieces = splitDocument(document('short', 1), 1000);
+    assert.equal(pieces.length, 1);
+    assert.deepEqual([pieces[0]!.part, pieces[0]!.parts], [1, 1]);
+  });
+
+  it('Should split long documents on paragraph boundaries with overlap', () => {
+    const long = document('long', 60);
+    const pieces = splitDocument(long, 1000);
+    assert.ok(pieces.length > 1);
+    for (const [i, piece] of pieces.entries()) {
+      assert.equal(piece.document, long);
+      assert.deepEqual([piece.part, piece.parts], [i + 1, pieces.length]);
+      assert.ok(piece.tokens <= 1000, `piece ${i + 1} has ${piece.tokens} tokens`);
+      assert.equal(piece.tokens, countTokens(piece.text));
+      assert.match(piece.text, /^long paragraph \d+ sentence 0 /);
+    }
+    // Neighbouring pieces share a paragraph
+    const lastParagraph = pieces[0]!.text.split('\n\n').at(-1)!;
+    assert.ok(pieces[1]!.text.includes(lastParagraph));
+  });
+});
+
+describe('chunkDocuments', () => {
+  it('Should pack pieces into chunks within the budget, in document order', () => {
+    const chunks = chunkDocuments([document('a', 3), document('b', 3), document('c', 40)], 500);
+    const labels = chunks.map(chunk => chunk.map(p => `${p.document.title}${p.part}/${p.parts}`));
+    assert.deepEqual(labels[0], ['a1/1', 'b1/1']);
+    assert.ok(labels.slice(1).flat().every(label => label.startsWith('c')));
+    for (const chunk of chunks) {
+      assert.ok(chunk.reduce((sum, p) => sum + p.tokens + 40, 0) <= 500);
+    }
+  });
+});
+
+describe('createChunker', () => {
+  it('Should return chunks once they are full, packing documents added apart together', () => {
+    const chunker = createChunker(500);
+    assert.deepEqual(chunker.add([document('a', 3)]), []);
+    assert.deepEqual(chunker.add([document('b', 3)]), []);
+    const full = chunker.add([document('c', 40)]);
+    assert.deepEqual(full[0]!.map(p => p.document.title), ['a', 'b']);
+    const rest = chunker.flush();
+    assert.equal(rest.length, 1);
+    assert.ok(rest[0]!.every(p => p.document.title === 'c'));
+    assert.deepEqual(chunker.flush(), []);
+  });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert';
+import { beforeEach, describe, it } from 'node:test';
+import { clarifyResearch, formatBrief } from '../../src/core/clarification';
+import { setLLMProvider } from '../../src/models/providers/ai-models';
+import { cacheConfigFromEnv, setCache } from '../../src/utils/cache';
+
+// The questions the fake model asks in each round; later rounds ask nothing
+const rounds = [
+  ['Which chemistries?', 'For cars or phones?', 'Which years?'],
+  ['Which manufacturers?', 'Any price range?'],
+];
+
+describe('clarifyResearch', () => {
+  const prompts: string[] = [];
+
+  beforeEach(() => {
+    prompts.length = 0;
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setLLMProvider({
+      name: 'fake-llm',
+      model: 'fake',
+      async generateText(prompt: string) {
+        prompts.push(prompt);
+        if (prompt.includes('follow-up questions')) {
+          // Each round follows the answers to all questions of the rounds before it
+          const answered = (prompt.match(/^Q: /gm) ?? []).length;
+          const round = rounds.findIndex((_, i) => rounds.slice(0, i).flat().length === answered);
+          const numQuestions = Number(prompt.match(/Generate up to (\d+)/)![1]);
+          return JSON.stringify({ questions: (rounds[round] ?? []).slice(0, numQuestions) });
+        }
+        return JSON.stringify({
+          scope: 'Batteries for electric cars',
+          priorities: ['Solid-state cells'],
+          exclusions: ['Phones'],
+        });
+      },
+    });
+  });
+
+  it('Should ask follow-up questions based on the earlier answers', async () => {
+    const asked: string[] = [];
+    const brief = await clarifyResearch({
+      query: 'battery tech',
+      ask: async question => {
+        asked.push(question);
+        return `answer ${asked.length}`;
+      },
+    });
+
+    // The second round asks one question fewer, knowing the first round's answers
+    assert.deepEqual(asked, [...rounds[0]!, ...rounds[1]!]);
+    const followUp = prompts.filter(p => p.includes('follow-up questions'))[1]!;
+    assert.match(followUp, /Q: Which chemistries\?\nA: answer 1/);
+    assert.match(followUp, /Generate up to 2/);
+
+    assert.equal(brief.query, 'battery tech');
+    assert.equal(brief.scope, 'Batteries for electric cars');
+    assert.deepEqual(brief.exclusions, ['Phones']);
+    assert.deepEqual(brief.clarifications.map(turn => turn.answer), ['answer 1', 'answer 2', 'answer 3', 'answer 4', 'answer 5']);
+  });
+
+  it('Should stop once the model has no more questions', async () => {
+    const asked: string[] = [];
+    const brief = await clarifyResearch({
+      query: 'battery tech',
+      maxRounds: 3,
+      ask: async question => {
+        asked.push(question);
+        return 'yes';
+      },
+    });
+    assert.equal(asked.length, 5);
+    assert.equal(prompts.filter(p => p.includes('follow-up questions')).length, 3);
+    assert.equal(brief.clarifications.length, 5);
+  });
+
+  it('Should stop asking when the user stops answering', async () => {
+    let count = 0;
+    const brief = await clarifyResearch({
+      query: 'battery tech',
+      ask: async () => (++count <= 2 ? 'cars' : undefined),
+    });
+    assert.equal(count, 3);
+    assert.deepEqual(brief.clarifications.map(turn => turn.question), rounds[0]!.slice(0, 2));
+    assert.equal(prompts.filter(p => p.includes('follow-up questions')).length, 1);
+  });
+
+  it('Should not build a brief from unanswered questions', async () => {
+    const brief = await clarifyResearch({ query: 'battery tech', maxRounds: 1, ask: async () => '' });
+    assert.equal(brief.scope, 'battery tech');
+    assert.deepEqual(brief.priorities, []);
+    assert.equal(brief.clarifications.length, 3);
+    assert.ok(!prompts.some(p => p.includes('research brief')));
+  });
+});
+
+describe('formatBrief', () => {
+  it('Should render the scope, priorities and exclusions', () => {
+    assert.equal(
+      formatBrief({
+        query: 'battery tech',
+        scope: 'Batteries for electric cars',
+        priorities: ['Solid-state cells'],
+        exclusions: ['Phones'],
+        clarifications: [],
+      }),
+      'Research query: battery tech\nScope: Batteries for electric cars\nPriorities (most important first):\n- Solid-state cells\nExclude:\n- Phones',
+    );
+  });
+});
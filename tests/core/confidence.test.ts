@@ -0,0 +1,109 @@
+import assert from 'node:assert';
+import { before, describe, it } from 'node:test';
+import { analyzeConfidence, scoreConfidence } from '../../src/core/confidence';
+import type { KeyFinding, Source } from '../../src/core/types';
+import { setLLMProvider } from '../../src/models/providers/ai-models';
+import { cacheConfigFromEnv, setCache } from '../../src/utils/cache';
+
+const fetchedAt = '2025-01-01T00:00:00.000Z';
+const sources: Source[] = [
+  { url: 'https://www.apple.com/iphone', title: 'Apple', fetchedAt },
+  { url: 'https://apple.com/iphone/specs', title: 'Apple specs', fetchedAt },
+  { url: 'https://review.example/iphone', title: 'Review', fetchedAt },
+  { url: 'https://rumors.example/iphone', title: 'Rumors', fetchedAt },
+];
+
+const findings: KeyFinding[] = [
+  { title: 'Battery', details: ['Lasts 33 hours [1][3]', 'Lasts 29 hours [4]'] },
+  { title: 'Price', details: ['Costs $1199 [1][2][3]'] },
+  { title: 'Camera', details: ['48MP main camera [1][3][4]'] },
+];
+
+describe('scoreConfidence', () => {
+  it('Should count pages of the same site once', () => {
+    // apple.com twice and review.example
+    assert.equal(scoreConfidence(findings[1]!, sources), 'medium');
+    assert.equal(scoreConfidence(findings[2]!, sources), 'high');
+    assert.equal(scoreConfidence({ title: 'Rumor', details: ['Folding model [4]', 'Unsourced [9]'] }, sources), 'low');
+  });
+});
+
+describe('analyzeConfidence', () => {
+  let response = '';
+  const prompts: string[] = [];
+
+  before(() => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setLLMProvider({
+      name: 'fake',
+      model: 'fake',
+      async generateText(prompt: string) {
+        prompts.push(prompt);
+        return response;
+      },
+    });
+  });
+
+  it('Should record disputes and lower the confidence of disputed findings', async () => {
+    response = JSON.stringify({
+      disputes: [
+        {
+          topic: 'Battery life',
+          claims: [
+            { claim: '33 hours', sources: [1, 3] },
+            { claim: '29 hours', sources: [4, 12] },
+          ],
+          assessment: 'The 33 hours figure is from the specifications.',
+          findings: ['F1', 'F7'],
+        },
+        // Only one side cites existing sources
+        {
+          topic: 'Colors',
+          claims: [{ claim: 'Blue', sources: [1] }, { claim: 'Green', sources: [9] }],
+          assessment: '',
+          findings: ['F2'],
+        },
+      ],
+    });
+    const analysis = await analyzeConfidence({ query: 'iPhone', findings, sources, maxTokens: 10_000 });
+
+    assert.match(prompts.at(-1)!, /F3\. Camera\n  - 48MP main camera \[1\]\[3\]\[4\]/);
+    assert.match(prompts.at(-1)!, /\[2\] Apple specs \(apple\.com\)/);
+    assert.deepEqual(analysis.disputes, [{
+      topic: 'Battery life',
+      claims: [
+        { claim: '33 hours', sources: [1, 3] },
+        { claim: '29 hours', sources: [4] },
+      ],
+      assessment: 'The 33 hours figure is from the specifications.',
+      findings: [1],
+    }]);
+    assert.deepEqual(analysis.keyFindings.map(f => f.confidence), ['low', 'medium', 'high']);
+  });
+
+  it('Should only let disputes affect the findings in the prompt', async () => {
+    response = JSON.stringify({
+      disputes: [{
+        topic: 'Camera',
+        claims: [{ claim: '48MP', sources: [1] }, { claim: '12MP', sources: [4] }],
+        assessment: '',
+        findings: ['F1', 'F3'],
+      }],
+    });
+    // Room for the sources and the first finding only
+    const maxTokens = 70;
+    const analysis = await analyzeConfidence({ query: 'iPhone', findings, sources, maxTokens });
+
+    assert.match(prompts.at(-1)!, /F1\. Battery/);
+    assert.doesNotMatch(prompts.at(-1)!, /F3\. Camera/);
+    assert.deepEqual(analysis.disputes[0]!.findings, [1]);
+    assert.deepEqual(analysis.keyFindings.map(f => f.confidence), ['low', 'medium', 'high']);
+  });
+
+  it('Should still score confidence when the check fails', async () => {
+    response = 'not json';
+    const analysis = await analyzeConfidence({ query: 'iPhone', findings, sources, maxTokens: 10_000 });
+    assert.deepEqual(analysis.disputes, []);
+    assert.deepEqual(analysis.keyFindings.map(f => f.confidence), ['high', 'medium', 'high']);
+  });
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { diffRuns, formatRunDiff } from '../../src/core/history-diff';
+import type { ResearchResult } from '../../src/core/types';
+
+const older: ResearchResult = {
+  id: '20250101-000000-aaaa',
+  query: 'Solid state batteries',
+  searchQueries: ['solid state battery range', 'solid state battery cost'],
+  levels: [],
+  learnings: ['Prototypes reach 500 Wh/kg'],
+  report: {
+    executiveSummary: 'Early days.',
+    keyFindings: [
+      { title: 'Energy density', details: ['Prototypes reach 500 Wh/kg [1]'] },
+      { title: 'Cost', details: ['Cells cost $400/kWh [2]'] },
+    ],
+    sources: [
+      { url: 'https://example.com/density', title: 'Density', fetchedAt: '2025-01-01T00:00:00.000Z' },
+      { url: 'https://example.com/cost', title: 'Cost', fetchedAt: '2025-01-01T00:00:00.000Z' },
+    ],
+  },
+  timings: {
+    startedAt: '2025-01-01T00:00:00.000Z',
+    finishedAt: '2025-01-01T00:01:00.000Z',
+    durationMs: 60000,
+  },
+};
+
+const newer: ResearchResult = {
+  ...older,
+  id: '20250201-000000-bbbb',
+  searchQueries: ['Solid state battery range', 'solid state battery production'],
+  learnings: ['Prototypes reach 500 Wh/kg', 'Pilot lines opened in 2025'],
+  report: {
+    executiveSummary: 'Production is starting.',
+    keyFindings: [
+      // Same detail, cited with a different source number
+      { title: 'Energy density', details: ['Prototypes reach 500 Wh/kg [2]'] },
+      { title: 'cost', details: ['Cells cost $250/kWh [1]'] },
+      { title: 'Production', details: ['Pilot lines opened in 2025 [1]'] },
+    ],
+    sources: [
+      { url: 'http://www.example.com/cost/', title: 'Cost', fetchedAt: '2025-02-01T00:00:00.000Z' },
+      { url: 'https://example.com/density', title: 'Density', fetchedAt: '2025-02-01T00:00:00.000Z' },
+      { url: 'https://example.com/pilot', title: 'Pilot lines', fetchedAt: '2025-02-01T00:00:00.000Z' },
+    ],
+  },
+  timings: {
+    startedAt: '2025-02-01T00:00:00.000Z',
+    finishedAt: '2025-02-01T00:01:00.000Z',
+    durationMs: 60000,
+  },
+};
+
+describe('diffRuns', () => {
+  it('Should report what changed between two runs', () => {
+    const diff = diffRuns(older, newer);
+    assert.equal(diff.sameQuery, true);
+    assert.deepEqual(diff.addedQueries, ['solid state battery production']);
+    assert.deepEqual(diff.removedQueries, ['solid state battery cost']);
+    assert.deepEqual(diff.addedSources.map(s => s.url), ['https://example.com/pilot']);
+    assert.deepEqual(diff.removedSources, []);
+    assert.deepEqual(diff.addedFindings.map(f => f.title), ['Production']);
+    assert.deepEqual(diff.removedFindings, []);
+    assert.deepEqual(diff.changedFindings, [{
+      title: 'cost',
+      addedDetails: ['Cells cost $250/kWh [1]'],
+      removedDetails: ['Cells cost $400/kWh [2]'],
+    }]);
+    assert.deepEqual(diff.newLearnings, ['Pilot lines opened in 2025']);
+  });
+
+  it('Should render the diff as markdown', () => {
+    const markdown = formatRunDiff(diffRuns(older, newer));
+    assert.match(markdown, /## New Findings\n\n- \*\*Production\*\*\n  - Pilot lines opened in 2025/);
+    assert.match(markdown, /  - Added: Cells cost \$250\/kWh\n  - Removed: Cells cost \$400\/kWh/);
+    assert.doesNotMatch(markdown, /different queries/);
+    assert.match(formatRunDiff(diffRuns(older, older)), /No changes between the runs\./);
+  });
+
+  it('Should note when the runs researched different queries', () => {
+    const markdown = formatRunDiff(diffRuns(older, { ...newer, query: 'Sodium-ion batteries' }));
+    assert.match(markdown, /older one was "Solid state batteries"/);
+  });
+});
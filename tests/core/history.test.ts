@@ -0,0 +1,97 @@
+import assert from 'node:assert';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { listRuns, loadRun, loadRunIndex, recordRun } from '../../src/core/history';
+import type { ResearchResult } from '../../src/core/types';
+import { createVectorIndex } from '../../src/core/vector-index';
+import { createLocalEmbedder } from '../../src/models/embeddings';
+
+// A finished run with the given id, query and finish time
+function researchResult(id: string, query: string, finishedAt: string): ResearchResult {
+  return {
+    id,
+    query,
+    searchQueries: [query],
+    levels: [],
+    learnings: [],
+    report: {
+      executiveSummary: `About ${query}`,
+      keyFindings: [{ title: 'Finding', details: ['Detail [1]'] }],
+      sources: [{ url: 'https://example.com/', title: 'Example', fetchedAt: finishedAt }],
+    },
+    timings: { startedAt: finishedAt, finishedAt, durationMs: 0 },
+  };
+}
+
+describe('history', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'history-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('Should list no runs before any is recorded', async () => {
+    assert.deepEqual(await listRuns({}, directory), []);
+  });
+
+  it('Should record runs and list them newest first', async () => {
+    const record = await recordRun(
+      { result: researchResult('20250101-000000-aaaa', 'Solid state batteries', '2025-01-01T00:00:00.000Z'), breadth: 4, depth: 2, reports: ['report.md'] },
+      directory,
+    );
+    assert.equal(record.sourceCount, 1);
+    assert.equal(record.findingCount, 1);
+    await recordRun({ result: researchResult('20250201-000000-bbbb', 'Heat pumps', '2025-02-01T00:00:00.000Z'), breadth: 2, depth: 1 }, directory);
+
+    const runs = await listRuns({}, directory);
+    assert.deepEqual(runs.map(run => run.id), ['20250201-000000-bbbb', '20250101-000000-aaaa']);
+    assert.deepEqual(runs[1]!.reports, ['report.md']);
+    assert.deepEqual((await listRuns({ query: 'BATTERIES' }, directory)).map(run => run.id), ['20250101-000000-aaaa']);
+  });
+
+  it('Should keep the latest entry of a run recorded again and skip broken lines', async () => {
+    const result = researchResult('20250101-000000-aaaa', 'Solid state batteries', '2025-01-01T00:00:00.000Z');
+    await recordRun({ result, breadth: 4, depth: 2 }, directory);
+    await appendFile(join(directory, 'index.jsonl'), '{"id": "half-writ\n');
+    await recordRun({ result: { ...result, error: 'Interrupted' }, breadth: 4, depth: 2 }, directory);
+
+    const runs = await listRuns({}, directory);
+    assert.equal(runs.length, 1);
+    assert.equal(runs[0]!.error, 'Interrupted');
+    assert.equal((await loadRun(result.id, directory)).result.error, 'Interrupted');
+  });
+
+  it('Should load a run by its id or a unique prefix of it', async () => {
+    await recordRun({ result: researchResult('20250101-000000-aaaa', 'Solid state batteries', '2025-01-01T00:00:00.000Z'), breadth: 4, depth: 2 }, directory);
+    await recordRun({ result: researchResult('20250101-000000-aabb', 'Heat pumps', '2025-01-01T00:01:00.000Z'), breadth: 2, depth: 1 }, directory);
+    await recordRun({ result: researchResult('20250101-000000-aa', 'Wind turbines', '2025-01-01T00:02:00.000Z'), breadth: 2, depth: 1 }, directory);
+
+    const record = await loadRun('20250101-000000-aaaa', directory);
+    assert.equal(record.query, 'Solid state batteries');
+    assert.equal(record.breadth, 4);
+    assert.equal(record.result.report.executiveSummary, 'About Solid state batteries');
+    assert.equal((await loadRun('20250101-000000-aab', directory)).query, 'Heat pumps');
+    // An id that is also the prefix of other runs loads its own run
+    assert.equal((await loadRun('20250101-000000-aa', directory)).query, 'Wind turbines');
+
+    await assert.rejects(loadRun('20250101-000000-a', directory), /ambiguous, it matches/);
+    await assert.rejects(loadRun('2024', directory), /No research run found with id "2024"/);
+  });
+
+  it('Should save the vector index with a run', async () => {
+    const index = createVectorIndex({ embedder: createLocalEmbedder() });
+    await index.add([{ sourceId: 1, content: 'Sulfide solid electrolytes crack under pressure.' }]);
+    await recordRun({ result: researchResult('20250101-000000-aaaa', 'Solid state batteries', '2025-01-01T00:00:00.000Z'), breadth: 4, depth: 2, index }, directory);
+    await recordRun({ result: researchResult('20250201-000000-bbbb', 'Heat pumps', '2025-02-01T00:00:00.000Z'), breadth: 2, depth: 1 }, directory);
+
+    const loaded = await loadRunIndex('20250101-000000-aaaa', directory);
+    assert.equal(loaded!.size(), index.size());
+    assert.equal(await loadRunIndex('20250201-000000-bbbb', directory), undefined);
+  });
+});
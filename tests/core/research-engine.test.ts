@@ -0,0 +1,418 @@
+import assert from 'node:assert';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createCheckpoint } from '../../src/core/checkpoint';
+import { deepResearch, extendResearch } from '../../src/core/research-engine';
+import { setVettingConfig, vettingConfigFromEnv } from '../../src/core/source-vetting';
+import { setSearchProvider } from '../../src/core/web-search';
+import { setLLMProvider } from '../../src/models/providers/ai-models';
+import { cacheConfigFromEnv, setCache } from '../../src/utils/cache';
+import { getLogger, silentLogger } from '../../src/utils/logger';
+
+const queries = ['first', 'second', 'third', 'fourth'];
+
+describe('deepResearch', () => {
+  const prompts: string[] = [];
+
+  before(() => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setLLMProvider({
+      name: 'fake-llm',
+      model: 'fake',
+      // Small enough that every page gets a chunk of its own
+      contextWindow: 10_000,
+      async generateText(prompt: string) {
+        prompts.push(prompt);
+        if (prompt.includes('unique search queries')) {
+          // A dig into cells searches for them only
+          return JSON.stringify({ queries: prompt.includes('- cells') ? ['cells'] : queries });
+        }
+        if (prompt.includes('sources contradict each other')) {
+          return JSON.stringify({ disputes: [] });
+        }
+        if (prompt.includes('partial analyses')) {
+          // Cluster every finding into one, keeping the details in prompt order
+          const details = [...prompt.matchAll(/^  - (.+)$/gm)].map(m => m[1]);
+          return JSON.stringify({
+            executiveSummary: 'Synthesized summary',
+            keyFindings: [{ title: 'Results', details, mergedFrom: details.map((_, i) => `F${i + 1}`) }],
+          });
+        }
+        const title = prompt.match(/\[1\] Source: (\w+)/)![1];
+        return JSON.stringify({
+          summary: `Summary of ${title}`,
+          keyFindings: [{ title: 'Results', details: [`Found ${title} [1]`] }],
+          learnings: [`Learned ${title}`],
+        });
+      },
+    });
+    // Later queries finish first, and every query also returns a shared page
+    setSearchProvider({
+      name: 'fake-search',
+      async search(query: string) {
+        await new Promise(resolve => setTimeout(resolve, (queries.length - queries.indexOf(query)) * 10));
+        const fetchedAt = '2025-01-01T00:00:00.000Z';
+        return [query, 'shared'].map(page => ({
+          url: `https://example.com/${page}`,
+          title: page,
+          content: `${page} `.repeat(5000),
+          fetchedAt,
+          query,
+        }));
+      },
+    });
+  });
+
+  it('Should merge concurrent results in query order', async () => {
+    const result = await deepResearch({ query: 'test', breadth: 4, depth: 1, concurrency: 4 });
+    assert.equal(result.error, undefined);
+    assert.deepEqual(
+      result.report.sources.map(s => s.title),
+      ['first', 'shared', 'second', 'third', 'fourth'],
+    );
+    assert.deepEqual(result.report.keyFindings[0]!.details, [
+      'Found first [1]',
+      'Found shared [2]',
+      'Found second [3]',
+      'Found third [4]',
+      'Found fourth [5]',
+    ]);
+    assert.equal(result.report.executiveSummary, 'Synthesized summary');
+    assert.equal(result.report.keyFindings[0]!.level, 1);
+    // Every page is on example.com, so they count as a single site
+    assert.equal(result.report.keyFindings[0]!.confidence, 'low');
+    assert.deepEqual(result.report.disputes, []);
+    // The chunk analyses are kept as an appendix
+    assert.deepEqual(
+      result.report.appendix!.map(chunk => [chunk.summary, chunk.sourceIds]),
+      [
+        ['Summary of first', [1]],
+        ['Summary of shared', [2]],
+        ['Summary of second', [3]],
+        ['Summary of third', [4]],
+        ['Summary of fourth', [5]],
+      ],
+    );
+    assert.deepEqual(result.learnings, [
+      'Learned first',
+      'Learned shared',
+      'Learned second',
+      'Learned third',
+      'Learned fourth',
+    ]);
+  });
+
+  it('Should analyse seed documents first and build the queries on them', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'seeds-'));
+    try {
+      const path = join(directory, 'paper.md');
+      // Long enough for a chunk of its own
+      await writeFile(path, `# Seedpaper\n\n${'Sulfide electrolytes crack under pressure. '.repeat(400)}`);
+      prompts.length = 0;
+      const result = await deepResearch({ query: 'test', breadth: 1, depth: 1, seeds: { files: [path] } });
+
+      assert.deepEqual(result.report.sources.map(s => s.title), ['Seedpaper', 'first', 'shared']);
+      assert.deepEqual(result.report.keyFindings[0]!.details, ['Found Seedpaper [1]', 'Found first [2]', 'Found shared [3]']);
+      const queryPrompt = prompts.find(p => p.includes('unique search queries'))!;
+      assert.match(queryPrompt, /- Seedpaper: # Seedpaper Sulfide electrolytes crack under pressure\./);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('Should dig into a topic of a finished run, keeping its citations', async () => {
+    const result = await deepResearch({ query: 'test', breadth: 2, depth: 1 });
+    prompts.length = 0;
+    const extended = await extendResearch(result, { topic: 'cells', breadth: 1 });
+
+    // The shared page is a source already, so only the new page is analysed
+    assert.deepEqual(extended.report.sources.map(s => s.title), ['first', 'shared', 'second', 'cells']);
+    assert.deepEqual(extended.report.keyFindings[0]!.details, [
+      'Found first [1]',
+      'Found shared [2]',
+      'Found second [3]',
+      'Found cells [4]',
+    ]);
+    assert.deepEqual(extended.levels.map(l => [l.level, l.topic]), [[1, undefined], [2, 'cells']]);
+    assert.deepEqual(extended.searchQueries, ['first', 'second', 'cells']);
+    assert.ok(extended.learnings.includes('Learned cells'));
+    assert.equal(extended.timings.startedAt, result.timings.startedAt);
+    assert.match(prompts.find(p => p.includes('unique search queries'))!, /Open questions to investigate next:\n- cells/);
+
+    // A dig that only finds known pages leaves the run as it was
+    assert.equal(await extendResearch(result, { topic: 'anodes', breadth: 1 }), result);
+  });
+
+  it('Should report progress to the logger it is given only', async () => {
+    const lines: string[] = [];
+    const logger = { log: (...args: unknown[]) => lines.push(args.join(' ')), warn() {}, error() {} };
+    const result = await deepResearch({ query: 'test', breadth: 1, depth: 1, logger });
+    assert.equal(result.error, undefined);
+    assert.ok(lines.some(line => line.includes('Starting deep research')));
+    // Lines of the searches and model calls the run makes are reported too
+    assert.ok(lines.some(line => line.includes('first')));
+    assert.equal(getLogger(), silentLogger);
+  });
+});
+
+describe('deepResearch with a brief', () => {
+  const searched: string[] = [];
+
+  before(() => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setLLMProvider({
+      name: 'fake-llm',
+      model: 'fake',
+      async generateText(prompt: string) {
+        // Query generation keeps failing, so the fallback queries are searched
+        if (prompt.includes('unique search queries')) {
+          return '{}';
+        }
+        if (prompt.includes('sources contradict each other')) {
+          return JSON.stringify({ disputes: [] });
+        }
+        return JSON.stringify({ summary: 'Summary', keyFindings: [], learnings: [] });
+      },
+    });
+    setSearchProvider({
+      name: 'fake-search',
+      async search(query: string) {
+        searched.push(query);
+        return [];
+      },
+    });
+  });
+
+  it('Should build the fallback queries on the query, not the brief', async () => {
+    await deepResearch({
+      query: 'battery tech',
+      brief: {
+        query: 'battery tech',
+        scope: 'Batteries for electric cars',
+        priorities: ['Solid-state cells'],
+        exclusions: [],
+        clarifications: [],
+      },
+      breadth: 2,
+      depth: 1,
+    });
+    assert.deepEqual(searched, ['battery tech', 'battery tech comparison']);
+  });
+});
+
+describe('deepResearch searches', () => {
+  const events: string[] = [];
+
+  before(() => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setLLMProvider({
+      name: 'fake-llm',
+      model: 'fake',
+      contextWindow: 10_000,
+      async generateText(prompt: string) {
+        if (prompt.includes('unique search queries')) {
+          return JSON.stringify({ queries: ['fast', 'slow'] });
+        }
+        if (prompt.includes('sources contradict each other')) {
+          return JSON.stringify({ disputes: [] });
+        }
+        if (prompt.includes('partial analyses')) {
+          return JSON.stringify({ executiveSummary: 'Summary', keyFindings: [] });
+        }
+        const title = prompt.match(/\[1\] Source: (\w+)/)![1];
+        events.push(`analyze:${title}`);
+        return JSON.stringify({ summary: `Summary of ${title}`, keyFindings: [], learnings: [] });
+      },
+    });
+    setSearchProvider({
+      name: 'fake-search',
+      async search(query: string) {
+        await new Promise(resolve => setTimeout(resolve, query === 'slow' ? 200 : 0));
+        events.push(`search:${query}`);
+        return [{
+          url: `https://example.com/${query}`,
+          title: query,
+          // Longer than a chunk, so the first piece fills one right away
+          content: `${query} `.repeat(8000),
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+          query,
+        }];
+      },
+    });
+  });
+
+  it('Should analyse the results of a search while later searches run', async () => {
+    const result = await deepResearch({ query: 'test', breadth: 2, depth: 1, concurrency: 2 });
+    assert.deepEqual(result.report.sources.map(s => s.title), ['fast', 'slow']);
+    assert.ok(events.indexOf('analyze:fast') < events.indexOf('search:slow'), events.join(', '));
+  });
+});
+
+describe('deepResearch vetting', () => {
+  before(() => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setVettingConfig({ ...vettingConfigFromEnv(), reputations: { 'good.example': 1, 'poor.example': 0 }, maxDocuments: 2 });
+    setLLMProvider({
+      name: 'fake-llm',
+      model: 'fake',
+      async generateText(prompt: string) {
+        if (prompt.includes('unique search queries')) {
+          return JSON.stringify({ queries: ['poor', 'good'] });
+        }
+        if (prompt.includes('sources contradict each other')) {
+          return JSON.stringify({ disputes: [] });
+        }
+        if (prompt.includes('partial analyses')) {
+          return JSON.stringify({ executiveSummary: 'Summary', keyFindings: [] });
+        }
+        const ids = [...prompt.matchAll(/^\[(\d+)\] Source:/gm)].map(m => m[1]);
+        return JSON.stringify({
+          summary: 'Summary',
+          keyFindings: [{ title: 'Pages', details: [`Seen ${ids.map(id => `[${id}]`).join('')}`] }],
+          learnings: [],
+        });
+      },
+    });
+    // Each search finds two distinct pages on its own site
+    setSearchProvider({
+      name: 'fake-search',
+      async search(query: string) {
+        return ['a', 'b'].map(page => ({
+          url: `https://${query}.example/${page}`,
+          title: `${query}-${page}`,
+          content: Array.from({ length: 300 }, (_, i) => `${query}${page}${i}`).join(' '),
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+          query,
+        }));
+      },
+    });
+  });
+
+  after(() => setVettingConfig(vettingConfigFromEnv()));
+
+  it('Should share the page limit of a level between its queries', async () => {
+    const result = await deepResearch({ query: 'test', breadth: 2, depth: 1 });
+    // The first query's pages would fill the limit, but the better pages of
+    // the second query get their share
+    assert.deepEqual(result.report.sources.map(s => s.title), ['poor-a', 'good-a']);
+    // Pages of both searches are analysed together, in a single chunk, so
+    // there is no appendix of chunk analyses
+    assert.equal(result.report.appendix, undefined);
+  });
+});
+
+describe('deepResearch with a checkpoint', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'checkpoints-'));
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setLLMProvider({
+      name: 'fake-llm',
+      model: 'fake',
+      async generateText() {
+        return JSON.stringify({ queries: ['nothing'] });
+      },
+    });
+    // A search that works but finds nothing
+    setSearchProvider({
+      name: 'fake-search',
+      async search() {
+        return [];
+      },
+    });
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('Should finish a run whose searches found nothing', async () => {
+    const params = { query: 'test', breadth: 1, depth: 1 };
+    const checkpoint = createCheckpoint('20250101-000000-aaaa', params, directory);
+    const result = await deepResearch({ ...params, checkpoint });
+    assert.equal(result.error, undefined);
+    assert.equal(await checkpoint.finish(), true);
+    assert.deepEqual(await readdir(directory), []);
+  });
+});
+
+describe('deepResearch over several levels', () => {
+  const queryPrompts: string[] = [];
+
+  before(() => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setLLMProvider({
+      name: 'fake-llm',
+      model: 'fake',
+      // Small enough that every page gets a chunk of its own
+      contextWindow: 10_000,
+      async generateText(prompt: string) {
+        if (prompt.includes('unique search queries')) {
+          queryPrompts.push(prompt);
+          const deeper = prompt.includes('Open questions to investigate next');
+          return JSON.stringify({ queries: deeper ? ['deep1', 'deep2', 'deep3'] : ['top1', 'top2', 'top3', 'top4'] });
+        }
+        if (prompt.includes('sources contradict each other')) {
+          return JSON.stringify({ disputes: [] });
+        }
+        if (prompt.includes('partial analyses')) {
+          // Keep every finding as it is
+          const findings = [...prompt.matchAll(/^F(\d+)\. (.+)\n  - (.+)$/gm)];
+          return JSON.stringify({
+            executiveSummary: 'Summary',
+            keyFindings: findings.map(([, id, title, detail]) => ({ title, details: [detail], mergedFrom: [`F${id}`] })),
+          });
+        }
+        const title = prompt.match(/\[1\] Source: (\w+)/)![1];
+        return JSON.stringify({
+          summary: `Summary of ${title}`,
+          keyFindings: [{ title: `About ${title}`, details: [`Found ${title} [1]`] }],
+          learnings: [`Learned ${title}`],
+          followUpQuestions: [`What else about ${title}?`],
+        });
+      },
+    });
+    setSearchProvider({
+      name: 'fake-search',
+      async search(query: string) {
+        return [{
+          url: `https://${query}.example/`,
+          title: query,
+          content: `${query} `.repeat(2500),
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+          query,
+        }];
+      },
+    });
+  });
+
+  it('Should research the follow-up questions of a level on the next one, at half the breadth', async () => {
+    const result = await deepResearch({ query: 'test', breadth: 4, depth: 2 });
+    assert.equal(result.error, undefined);
+
+    assert.deepEqual(result.levels.map(l => [l.level, l.breadth, l.searchQueries]), [
+      [1, 4, ['top1', 'top2', 'top3', 'top4']],
+      [2, 2, ['deep1', 'deep2']],
+    ]);
+    // The second level's queries build on what the first learned and left open
+    assert.equal(queryPrompts.length, 2);
+    assert.match(queryPrompts[1]!, /Learnings from previous research:\n- Learned top1\n/);
+    assert.match(queryPrompts[1]!, /Open questions to investigate next:\n- What else about top1\?\n/);
+
+    assert.deepEqual(
+      result.report.keyFindings.map(f => [f.title, f.level]),
+      [
+        ['About top1', 1],
+        ['About top2', 1],
+        ['About top3', 1],
+        ['About top4', 1],
+        ['About deep1', 2],
+        ['About deep2', 2],
+      ],
+    );
+    assert.ok(result.learnings.includes('Learned deep2'));
+  });
+});
@@ -0,0 +1,46 @@
+import assert from 'node:assert';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createLocalCorpusProvider } from '../../../src/core/search-providers/local-corpus-provider';
+
+describe('createLocalCorpusProvider', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'corpus-'));
+    await mkdir(join(directory, 'notes'));
+    await writeFile(
+      join(directory, 'battery.md'),
+      '# Battery Report\n\nThe new battery lasts longer. Battery life improved by 20%.',
+    );
+    await writeFile(
+      join(directory, 'notes', 'camera.txt'),
+      'The camera has a larger sensor and better battery management.',
+    );
+    await writeFile(join(directory, 'ignored.json'), '{"battery": true}');
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('Should rank matching markdown and text files by relevance', async () => {
+    const provider = createLocalCorpusProvider({ directory });
+    const results = await provider.search('battery life', { limit: 5 });
+
+    assert.deepEqual(
+      results.map(r => r.title),
+      ['Battery Report', 'camera'],
+    );
+    assert.ok(results[0]!.url.startsWith('file://'));
+    assert.equal(results[0]!.query, 'battery life');
+  });
+
+  it('Should respect the result limit and skip unrelated files', async () => {
+    const provider = createLocalCorpusProvider({ directory });
+    assert.equal((await provider.search('battery', { limit: 1 })).length, 1);
+    assert.deepEqual(await provider.search('quantum computing', { limit: 5 }), []);
+  });
+});
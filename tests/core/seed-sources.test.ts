@@ -0,0 +1,79 @@
+import assert from 'node:assert';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { loadSeeds, parseSeed } from '../../src/core/seed-sources';
+
+// Helper function to build a one-page PDF showing a line of text
+function minimalPdf(text: string, info: string): Uint8Array {
+  const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    info,
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
+
+describe('parseSeed', () => {
+  it('Should extract the text and metadata of a PDF', async () => {
+    const pdf = minimalPdf(
+      'Solid state batteries reach 500 Wh/kg.',
+      '<< /Title (Battery Report) /Author (Jane Roe) /CreationDate (D:20250314093000Z) >>',
+    );
+    assert.deepEqual(await parseSeed(pdf, 'pdf'), {
+      title: 'Battery Report',
+      author: 'Jane Roe',
+      publishedAt: '2025-03-14T00:00:00.000Z',
+      content: 'Solid state batteries reach 500 Wh/kg.',
+    });
+  });
+
+  it('Should extract the text of HTML and Markdown', async () => {
+    const encode = (text: string) => new TextEncoder().encode(text);
+    const html = await parseSeed(encode('<html><head><title>Notes</title></head><body><p>One &amp; two</p></body></html>'), 'html');
+    assert.deepEqual(html, { title: 'Notes', publishedAt: undefined, content: 'One & two' });
+    const markdown = await parseSeed(encode('Intro\n\n# Design Notes\n\nText'), 'markdown');
+    assert.equal(markdown.title, 'Design Notes');
+  });
+});
+
+describe('loadSeeds', () => {
+  let directory = '';
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'seeds-'));
+    await writeFile(join(directory, 'notes.md'), '# Cell chemistry\n\nSulfide electrolytes are brittle.');
+    await writeFile(join(directory, 'plain.txt'), 'Plain text notes.');
+    await writeFile(join(directory, 'empty.txt'), '');
+    await writeFile(join(directory, 'sheet.xlsx'), 'not text');
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('Should read the seed files and skip those that cannot be read', async () => {
+    const files = ['notes.md', 'plain.txt', 'empty.txt', 'sheet.xlsx', 'missing.md'].map(f => join(directory, f));
+    const documents = await loadSeeds({ files });
+    assert.deepEqual(documents.map(d => [d.title, d.content]), [
+      ['Cell chemistry', '# Cell chemistry\n\nSulfide electrolytes are brittle.'],
+      ['plain', 'Plain text notes.'],
+    ]);
+    assert.match(documents[0]!.url, /^file:\/\/.*notes\.md$/);
+  });
+});
@@ -0,0 +1,135 @@
+import assert from 'node:assert';
+import { afterEach, describe, it } from 'node:test';
+import {
+  hammingDistance,
+  scoreDocument,
+  simhash,
+  vetDocuments,
+  vettingConfigFromEnv,
+  type VettingConfig,
+} from '../../src/core/source-vetting';
+import type { SearchDocument } from '../../src/core/search-providers/types';
+
+const now = Date.parse('2025-06-01T00:00:00.000Z');
+
+const config: VettingConfig = {
+  allowDomains: [],
+  denyDomains: [],
+  reputations: {},
+  maxDocuments: 10,
+  minScore: 0.2,
+  duplicateDistance: 3,
+};
+
+const article = Array.from({ length: 400 }, (_, i) => `Sentence ${i} about solid state batteries and their cell chemistry.`).join(' ');
+
+function doc(url: string, content = article, publishedAt?: string): SearchDocument {
+  return { url, title: url, content, publishedAt, fetchedAt: '2025-06-01T00:00:00.000Z', query: 'batteries' };
+}
+
+describe('simhash', () => {
+  it('Should give near-duplicate texts close fingerprints', () => {
+    const copy = `Republished from the original. ${article} Share this article.`;
+    const other = Array.from({ length: 400 }, (_, i) => `Paragraph ${i} on the history of steam engines in Britain.`).join(' ');
+    assert.ok(hammingDistance(simhash(article), simhash(copy)) <= 3);
+    assert.ok(hammingDistance(simhash(article), simhash(other)) > 10);
+  });
+});
+
+describe('scoreDocument', () => {
+  it('Should prefer reputable, recent and substantial pages', () => {
+    const reputable = scoreDocument(doc('https://energy.gov/batteries', article, '2025-05-01'), config, now);
+    const old = scoreDocument(doc('https://energy.gov/batteries', article, '2015-05-01'), config, now);
+    const stub = scoreDocument(doc('https://energy.gov/batteries', 'Batteries.', '2025-05-01'), config, now);
+    const spam = scoreDocument(doc('https://pinterest.com/pin/1', 'batteries '.repeat(900)), config, now);
+    assert.ok(reputable > old && reputable > stub && old > spam, `${reputable} ${old} ${stub} ${spam}`);
+    assert.ok(scoreDocument(doc('https://blog.example/x'), { ...config, reputations: { 'blog.example': 1 } }, now)
+      > scoreDocument(doc('https://blog.example/x'), config, now));
+  });
+});
+
+describe('vetDocuments', () => {
+  it('Should apply the domain lists, drop near-duplicates and keep the best documents', () => {
+    const seen = [simhash('An article analysed on an earlier level, about something else entirely.')];
+    const documents = [
+      doc('https://blog.example/batteries'),
+      doc('https://www.spam.example/batteries', `Other ${article}`),
+      doc('https://news.example/copy', `Republished. ${article}`),
+      doc('https://lab.mit.edu/solid-state', `Lab notes. ${article}`.replace(/batteries/g, 'cells')),
+      doc('https://old.example/batteries', `Archive ${article}`.replace(/Sentence/g, 'Line'), '2001-01-01'),
+    ];
+    const result = vetDocuments(documents, { ...config, denyDomains: ['spam.example'], maxDocuments: 2 }, seen, now);
+
+    // Kept in the order they were found, not by score
+    assert.deepEqual(result.documents.map(d => d.url), ['https://blog.example/batteries', 'https://lab.mit.edu/solid-state']);
+    assert.ok(result.documents.every(d => d.score !== undefined));
+    assert.deepEqual(
+      result.rejected.map(r => [r.document.url, r.reason]).sort(),
+      [
+        ['https://news.example/copy', 'duplicate'],
+        ['https://old.example/batteries', 'over-limit'],
+        ['https://www.spam.example/batteries', 'denied'],
+      ],
+    );
+    // Later levels skip near-duplicates of what was kept
+    assert.equal(seen.length, 3);
+    const again = vetDocuments([doc('https://mirror.example/batteries')], config, seen, now);
+    assert.deepEqual(again.rejected.map(r => r.reason), ['duplicate']);
+  });
+
+  it('Should drop pages dated outside the date range and keep undated ones', () => {
+    const documents = [
+      doc('https://a.example/old', `A ${article}`.replace(/about/g, 'on'), '2024-12-31T23:00:00.000Z'),
+      doc('https://b.example/in', `B ${article}`.replace(/their/g, 'the'), '2025-03-01'),
+      doc('https://c.example/undated', `C ${article}`.replace(/Sentence/g, 'Line')),
+      doc('https://d.example/last-day', `D ${article}`.replace(/solid/g, 'liquid'), '2025-03-31T22:00:00.000Z'),
+    ];
+    const dateRange = { since: '2025-01-01', until: '2025-03-31' };
+    const result = vetDocuments(documents, { ...config, dateRange }, [], now);
+    assert.deepEqual(result.documents.map(d => d.url), ['https://b.example/in', 'https://c.example/undated', 'https://d.example/last-day']);
+    assert.deepEqual(result.rejected.map(r => r.reason), ['out-of-range']);
+    // Recency is measured from the end of the range
+    assert.ok(scoreDocument(documents[1]!, { ...config, dateRange }, now) > scoreDocument(documents[1]!, config, now));
+  });
+
+  it('Should only keep allowed domains when an allowlist is set', () => {
+    const result = vetDocuments(
+      [doc('https://docs.python.org/3/'), doc('https://python.org.evil.example/')],
+      { ...config, allowDomains: ['python.org'] },
+      [],
+      now,
+    );
+    assert.deepEqual(result.documents.map(d => d.url), ['https://docs.python.org/3/']);
+    assert.deepEqual(result.rejected.map(r => r.reason), ['not-allowed']);
+  });
+});
+
+describe('vettingConfigFromEnv', () => {
+  const names = ['SOURCE_MAX_PER_LEVEL', 'SOURCE_MIN_SCORE'];
+  const saved = names.map(name => process.env[name]);
+
+  afterEach(() => {
+    names.forEach((name, i) => {
+      if (saved[i] === undefined) delete process.env[name];
+      else process.env[name] = saved[i];
+    });
+  });
+
+  it('Should read the page limit and minimum score', () => {
+    process.env.SOURCE_MAX_PER_LEVEL = '5';
+    process.env.SOURCE_MIN_SCORE = '0';
+    const config = vettingConfigFromEnv();
+    assert.equal(config.maxDocuments, 5);
+    assert.equal(config.minScore, 0);
+  });
+
+  it('Should fall back to the defaults for values that are not non-negative numbers', () => {
+    process.env.SOURCE_MAX_PER_LEVEL = 'abc';
+    process.env.SOURCE_MIN_SCORE = '-1';
+    const config = vettingConfigFromEnv();
+    assert.equal(config.maxDocuments, 20);
+    assert.equal(config.minScore, 0.2);
+    process.env.SOURCE_MAX_PER_LEVEL = 'Infinity';
+    assert.equal(vettingConfigFromEnv().maxDocuments, 20);
+  });
+});
@@ -0,0 +1,106 @@
+import assert from 'node:assert';
+import { before, describe, it } from 'node:test';
+import { synthesizeReport } from '../../src/core/synthesis';
+import type { ChunkSummary } from '../../src/core/types';
+import { setLLMProvider } from '../../src/models/providers/ai-models';
+import { cacheConfigFromEnv, setCache } from '../../src/utils/cache';
+
+// Replies to every synthesis prompt with `respond`, recording the prompts
+function fakeModel(respond: (prompt: string) => object | string) {
+  const prompts: string[] = [];
+  setLLMProvider({
+    name: 'fake',
+    model: 'fake',
+    async generateText(prompt: string) {
+      prompts.push(prompt);
+      const response = respond(prompt);
+      return typeof response === 'string' ? response : JSON.stringify(response);
+    },
+  });
+  return prompts;
+}
+
+const chunks: ChunkSummary[] = [
+  {
+    level: 2,
+    sourceIds: [1],
+    summary: 'Battery life is 20 hours.',
+    keyFindings: [{ title: 'Battery', details: ['Lasts 20 hours [1]'] }],
+  },
+  {
+    level: 1,
+    sourceIds: [2],
+    summary: 'Battery life is 18 hours.',
+    keyFindings: [{ title: 'Battery life', details: ['Lasts 18 hours [2]'] }],
+  },
+];
+
+describe('synthesizeReport', () => {
+  before(() => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+  });
+
+  it('Should merge chunk findings into ranked findings', async () => {
+    const prompts = fakeModel(() => ({
+      executiveSummary: 'Sources disagree on battery life.',
+      keyFindings: [{
+        title: 'Battery life (disputed)',
+        details: ['Lasts 20 hours [1], or 18 hours [2]', 'Charges in an hour [7]'],
+        mergedFrom: ['F1', 'F2'],
+      }],
+    }));
+    const synthesis = await synthesizeReport({ query: 'battery', chunks, sourceCount: 2, maxTokens: 10_000 });
+
+    assert.equal(prompts.length, 1);
+    assert.match(prompts[0]!, /F1\. Battery\n  - Lasts 20 hours \[1\]/);
+    assert.match(prompts[0]!, /F2\. Battery life\n  - Lasts 18 hours \[2\]/);
+    assert.equal(synthesis.summary, 'Sources disagree on battery life.');
+    assert.deepEqual(synthesis.keyFindings, [{
+      title: 'Battery life (disputed)',
+      // Citations of sources that don't exist are dropped
+      details: ['Lasts 20 hours, or 18 hours [1][2]', 'Charges in an hour _(unverified)_'],
+      // The earliest level of the merged findings
+      level: 1,
+    }]);
+  });
+
+  it('Should reduce in batches when the chunks do not fit in one prompt', async () => {
+    let calls = 0;
+    const prompts = fakeModel(() => ({
+      executiveSummary: `Synthesis ${++calls}`,
+      keyFindings: [{ title: `Merged ${calls}`, details: ['Detail [1]'], mergedFrom: ['F1'] }],
+    }));
+    const many = [...chunks, ...chunks, ...chunks];
+    const synthesis = await synthesizeReport({ query: 'battery', chunks: many, sourceCount: 2, maxTokens: 60 });
+
+    // No two chunks fit together, so they are reduced in pairs: 6 -> 3 -> 2 -> 1
+    assert.equal(prompts.length, 5);
+    assert.match(prompts.at(-1)!, /Synthesis \d/);
+    assert.equal(synthesis.summary, `Synthesis ${prompts.length}`);
+  });
+
+  it('Should skip the model for a single chunk', async () => {
+    const prompts = fakeModel(() => '');
+    const synthesis = await synthesizeReport({ query: 'battery', chunks: chunks.slice(0, 1), sourceCount: 2, maxTokens: 10_000 });
+    assert.equal(prompts.length, 0);
+    assert.deepEqual(synthesis, {
+      summary: 'Battery life is 20 hours.',
+      keyFindings: [{ title: 'Battery', details: ['Lasts 20 hours [1]'], level: 2 }],
+    });
+  });
+
+  it('Should concatenate the chunks when synthesis fails', async () => {
+    fakeModel(() => 'not json');
+    const synthesis = await synthesizeReport({
+      query: 'battery',
+      chunks: [...chunks, { ...chunks[0]!, level: 1 }],
+      sourceCount: 2,
+      maxTokens: 10_000,
+    });
+    assert.equal(synthesis.summary, 'Battery life is 20 hours.\n\nBattery life is 18 hours.\n\nBattery life is 20 hours.');
+    assert.deepEqual(synthesis.keyFindings, [
+      { title: 'Battery', details: ['Lasts 20 hours [1]'], level: 1 },
+      { title: 'Battery life', details: ['Lasts 18 hours [2]'], level: 1 },
+    ]);
+  });
+});
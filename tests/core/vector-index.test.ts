@@ -0,0 +1,63 @@
+import assert from 'node:assert';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { createVectorIndex, formatPassages, loadVectorIndex } from '../../src/core/vector-index';
+import { createLocalEmbedder } from '../../src/models/embeddings';
+
+const documents = [
+  { sourceId: 1, content: 'Sulfide solid electrolytes offer high ionic conductivity but crack under mechanical pressure.' },
+  { sourceId: 2, content: 'Lithium iron phosphate cells dominate stationary storage because of their low cost and long cycle life.' },
+  { sourceId: 3, content: 'Battery recycling recovers cobalt and nickel through hydrometallurgical leaching.' },
+];
+
+describe('createVectorIndex', () => {
+  it('Should retrieve the passages most similar to a query', async () => {
+    const index = createVectorIndex({ embedder: createLocalEmbedder() });
+    assert.equal(await index.add(documents), 3);
+    // Sources already in the index are skipped
+    assert.equal(await index.add(documents.slice(0, 1)), 0);
+
+    const [best] = await index.search('Why do solid electrolytes crack?', 2);
+    assert.equal(best!.sourceId, 1);
+    assert.equal((await index.search('cost of stationary storage cells', 1))[0]!.sourceId, 2);
+  });
+
+  it('Should split long documents into passages', async () => {
+    const index = createVectorIndex({ embedder: createLocalEmbedder() });
+    const long = Array.from({ length: 200 }, (_, i) => `Paragraph ${i} about cathode coatings.`).join('\n\n');
+    assert.ok(await index.add([{ sourceId: 1, content: long }]) > 1);
+  });
+
+  it('Should save and load the index', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'index-'));
+    try {
+      const index = createVectorIndex({ embedder: createLocalEmbedder() });
+      await index.add(documents);
+      await index.save(join(directory, 'run.index.json'));
+
+      const loaded = await loadVectorIndex(join(directory, 'run.index.json'));
+      assert.equal(loaded.embedder, 'local/hashing-512');
+      assert.equal(loaded.size(), 3);
+      assert.deepEqual(
+        await loaded.search('recycling cobalt', 3),
+        await index.search('recycling cobalt', 3),
+      );
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('formatPassages', () => {
+  it('Should cite the passages and keep within the budget', () => {
+    const passages = [
+      { sourceId: 2, text: 'First   passage.', score: 0.9 },
+      { sourceId: 2, text: 'First passage.', score: 0.8 },
+      { sourceId: 1, text: 'Second passage.', score: 0.7 },
+      { sourceId: 3, text: 'Third passage. '.repeat(50), score: 0.6 },
+    ];
+    assert.equal(formatPassages(passages, 50), '[2] First passage.\n[1] Second passage.');
+  });
+});
@@ -0,0 +1,37 @@
+import assert from 'node:assert';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { searchWeb, setSearchProvider } from '../../src/core/web-search';
+import { cacheConfigFromEnv, setCache } from '../../src/utils/cache';
+
+describe('searchWeb', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'search-'));
+    setCache({ ...cacheConfigFromEnv(), enabled: true, directory: join(directory, 'cache') });
+  });
+
+  after(async () => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('Should not serve the cached results of another corpus', async () => {
+    const first = await mkdtemp(join(directory, 'first-'));
+    const second = await mkdtemp(join(directory, 'second-'));
+    await writeFile(join(first, 'a.md'), '# First corpus\n\nNotes on battery chemistry.');
+    await writeFile(join(second, 'b.md'), '# Second corpus\n\nNotes on battery chemistry.');
+
+    setSearchProvider({ provider: 'local', directory: first });
+    assert.deepEqual((await searchWeb('battery', 1)).map(d => d.title), ['First corpus']);
+    setSearchProvider({ provider: 'local', directory: second });
+    assert.deepEqual((await searchWeb('battery', 1)).map(d => d.title), ['Second corpus']);
+    // The first corpus' results are still cached
+    setSearchProvider({ provider: 'local', directory: first });
+    await rm(join(first, 'a.md'));
+    assert.deepEqual((await searchWeb('battery', 1)).map(d => d.title), ['First corpus']);
+  });
+});
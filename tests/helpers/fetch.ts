@@ -0,0 +1,17 @@
+const realFetch = globalThis.fetch;
+
+// Answers every request with one response until restoreFetch is called,
+// recording the requests
+export function stubFetch(response: () => Response) {
+  const requests: { url: string; init: RequestInit }[] = [];
+  globalThis.fetch = async (url, init) => {
+    requests.push({ url: String(url), init: init! });
+    return response();
+  };
+  return requests;
+}
+
+// Puts the real fetch back
+export function restoreFetch() {
+  globalThis.fetch = realFetch;
+}
@@ -0,0 +1,44 @@
+import assert from 'node:assert';
+import { before, describe, it } from 'node:test';
+import { createProviderEmbedder, embedderFor } from '../../src/models/embeddings';
+import { cacheConfigFromEnv, setCache } from '../../src/utils/cache';
+
+describe('createProviderEmbedder', () => {
+  before(() => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+  });
+
+  it('Should embed in batches and normalize the vectors', async () => {
+    const batches: number[] = [];
+    const embedder = createProviderEmbedder({
+      name: 'fake',
+      model: 'fake-chat',
+      embeddingModel: 'fake-embed',
+      async generateText() {
+        return '';
+      },
+      async embed(texts: string[]) {
+        batches.push(texts.length);
+        return texts.map(text => [text.length, 0, 0]);
+      },
+    });
+    const vectors = await embedder.embed(Array.from({ length: 70 }, (_, i) => 'x'.repeat(i + 1)));
+    assert.equal(embedder.name, 'fake/fake-embed');
+    assert.deepEqual(batches, [64, 6]);
+    assert.deepEqual(vectors[9], [1, 0, 0]);
+  });
+
+  it('Should refuse providers without embeddings', () => {
+    assert.throws(
+      () => createProviderEmbedder({ name: 'plain', model: 'x', generateText: async () => '' }),
+      /does not offer embeddings/,
+    );
+  });
+});
+
+describe('embedderFor', () => {
+  it('Should only recreate local embedders', () => {
+    assert.equal(embedderFor('local/hashing-256').name, 'local/hashing-256');
+    assert.throws(() => embedderFor('someprovider/some-model'), /can't be searched/);
+  });
+});
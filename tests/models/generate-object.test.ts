@@ -0,0 +1,93 @@
+import assert from 'node:assert';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { before, describe, it } from 'node:test';
+import { z } from 'zod';
+import {
+  extractJSON,
+  generateObject,
+  StructuredOutputError,
+} from '../../src/models/generate-object';
+import type { LLMProvider } from '../../src/models/providers/types';
+import { cacheConfigFromEnv, setCache } from '../../src/utils/cache';
+
+// A provider that replays canned responses and records the prompts it got
+function fakeProvider(responses: string[]) {
+  const prompts: string[] = [];
+  const provider: LLMProvider = {
+    name: 'fake',
+    model: 'fake',
+    async generateText(prompt: string) {
+      prompts.push(prompt);
+      return responses.shift() ?? '';
+    },
+  };
+  return { provider, prompts };
+}
+
+const Schema = z.object({ queries: z.array(z.string()).min(1) });
+
+describe('extractJSON', () => {
+  it('Should extract JSON from code blocks and surrounding text', () => {
+    assert.equal(extractJSON('```json\n{"a": 1}\n```'), '{"a": 1}');
+    assert.equal(extractJSON('Sure! {"a": {"b": "}"}} Done. {"c": 2}'), '{"a": {"b": "}"}}');
+    assert.equal(extractJSON('no json here'), null);
+  });
+});
+
+describe('generateObject', () => {
+  before(() => {
+    // The fake providers answer the same prompts differently from test to test
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+  });
+
+  it('Should return the validated object', async () => {
+    const { provider } = fakeProvider(['{"queries": ["a", "b"]}']);
+    assert.deepEqual(await generateObject(Schema, 'prompt', { provider }), {
+      queries: ['a', 'b'],
+    });
+  });
+
+  it('Should send validation errors back to the model', async () => {
+    const { provider, prompts } = fakeProvider([
+      '{"queries": []}',
+      '{"queries": ["a"]}',
+    ]);
+    assert.deepEqual(await generateObject(Schema, 'prompt', { provider }), {
+      queries: ['a'],
+    });
+    assert.equal(prompts.length, 2);
+    assert.match(prompts[1]!, /queries: Array must contain at least 1 element/);
+  });
+
+  it('Should give up after the maximum number of repairs', async () => {
+    const { provider, prompts } = fakeProvider(['nope', 'still nope']);
+    await assert.rejects(
+      generateObject(Schema, 'prompt', { provider, maxRepairs: 1 }),
+      StructuredOutputError,
+    );
+    assert.equal(prompts.length, 2);
+  });
+
+  it('Should only cache responses that match the schema', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'cache-'));
+    setCache({ ...cacheConfigFromEnv(), enabled: true, directory });
+    try {
+      const { provider, prompts } = fakeProvider(['nope', '{"queries": ["a"]}']);
+      await assert.rejects(generateObject(Schema, 'prompt', { provider, maxRepairs: 0 }), StructuredOutputError);
+      // The invalid response was not cached, so the model is asked again
+      assert.deepEqual(await generateObject(Schema, 'prompt', { provider, maxRepairs: 0 }), { queries: ['a'] });
+      assert.deepEqual(await generateObject(Schema, 'prompt', { provider, maxRepairs: 0 }), { queries: ['a'] });
+      assert.equal(prompts.length, 2);
+
+      // The same model on another server is asked again
+      const other = fakeProvider(['{"queries": ["b"]}']);
+      const elsewhere = { ...other.provider, endpoint: 'http://llm.local/v1' };
+      assert.deepEqual(await generateObject(Schema, 'prompt', { provider: elsewhere, maxRepairs: 0 }), { queries: ['b'] });
+    } finally {
+      setCache({ ...cacheConfigFromEnv(), enabled: false });
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import assert from 'node:assert';
+import { afterEach, describe, it } from 'node:test';
+import { createGeminiProvider } from '../../../src/models/providers/gemini-provider';
+import { restoreFetch, stubFetch } from '../../helpers/fetch';
+
+describe('createGeminiProvider', () => {
+  afterEach(restoreFetch);
+
+  it('Should prepend the system prompt and read the text of the first candidate', async () => {
+    const requests = stubFetch(() => Response.json({
+      candidates: [{ content: { role: 'model', parts: [{ text: '{"ok":true}' }] }, finishReason: 'STOP' }],
+    }));
+    const provider = createGeminiProvider({ model: 'gemini-pro', apiKey: 'key-test' });
+    const text = await provider.generateText('Hello', { system: 'Be brief', temperature: 0 });
+
+    assert.equal(text, '{"ok":true}');
+    assert.match(requests[0]!.url, /\/models\/gemini-pro:generateContent/);
+    const body = JSON.parse(requests[0]!.init.body as string);
+    assert.deepEqual(body.contents, [{ role: 'user', parts: [{ text: 'Be brief\n\nHello' }] }]);
+    assert.deepEqual(body.generationConfig, { temperature: 0 });
+    assert.equal(body.safetySettings.length, 4);
+  });
+
+  it('Should embed in one batch request', async () => {
+    const requests = stubFetch(() => Response.json({ embeddings: [{ values: [1, 0] }, { values: [0, 1] }] }));
+    const provider = createGeminiProvider({ apiKey: 'key-test' });
+
+    assert.deepEqual(await provider.embed!(['a', 'b']), [[1, 0], [0, 1]]);
+    assert.match(requests[0]!.url, /\/models\/text-embedding-004:batchEmbedContents/);
+    const body = JSON.parse(requests[0]!.init.body as string);
+    assert.deepEqual(body.requests.map((r: { content: { parts: { text: string }[] } }) => r.content.parts[0]!.text), ['a', 'b']);
+  });
+
+  it('Should pick the context window from the model', () => {
+    assert.equal(createGeminiProvider({ model: 'gemini-pro', apiKey: 'k' }).contextWindow, 30_720);
+    assert.equal(createGeminiProvider({ model: 'gemini-1.5-flash', apiKey: 'k' }).contextWindow, 1_048_576);
+  });
+});
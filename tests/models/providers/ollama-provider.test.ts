@@ -0,0 +1,43 @@
+import assert from 'node:assert';
+import { afterEach, describe, it } from 'node:test';
+import { createOllamaProvider } from '../../../src/models/providers/ollama-provider';
+import { RequestError } from '../../../src/utils/scheduler';
+import { restoreFetch, stubFetch } from '../../helpers/fetch';
+
+describe('createOllamaProvider', () => {
+  afterEach(restoreFetch);
+
+  it('Should generate without streaming and ask for the whole context window', async () => {
+    const requests = stubFetch(() => Response.json({ response: '{"ok":true}' }));
+    const provider = createOllamaProvider({ model: 'llama-test', baseUrl: 'http://ollama.local/', contextWindow: 4096 });
+    const text = await provider.generateText('Hello', { system: 'Be brief', json: true, temperature: 0.2 });
+
+    assert.equal(text, '{"ok":true}');
+    assert.equal(requests[0]!.url, 'http://ollama.local/api/generate');
+    assert.deepEqual(JSON.parse(requests[0]!.init.body as string), {
+      model: 'llama-test',
+      prompt: 'Hello',
+      system: 'Be brief',
+      format: 'json',
+      options: { num_ctx: 4096, temperature: 0.2 },
+      stream: false,
+    });
+  });
+
+  it('Should embed with the embedding model', async () => {
+    const requests = stubFetch(() => Response.json({ embeddings: [[1, 0], [0, 1]] }));
+    const provider = createOllamaProvider({ baseUrl: 'http://ollama.local' });
+
+    assert.deepEqual(await provider.embed!(['a', 'b']), [[1, 0], [0, 1]]);
+    assert.equal(requests[0]!.url, 'http://ollama.local/api/embed');
+    assert.deepEqual(JSON.parse(requests[0]!.init.body as string), { model: 'nomic-embed-text', input: ['a', 'b'] });
+  });
+
+  it('Should turn failed responses into request errors', async () => {
+    stubFetch(() => new Response('model "llama-test" not found', { status: 404 }));
+    const provider = createOllamaProvider({ model: 'llama-test' });
+    await assert.rejects(provider.generateText('Hello'), (e: RequestError) =>
+      e instanceof RequestError && e.status === 404 && /not found/.test(e.message),
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import assert from 'node:assert';
+import { afterEach, describe, it } from 'node:test';
+import { createOpenAIProvider } from '../../../src/models/providers/openai-provider';
+import { RequestError } from '../../../src/utils/scheduler';
+import { restoreFetch, stubFetch } from '../../helpers/fetch';
+
+describe('createOpenAIProvider', () => {
+  afterEach(restoreFetch);
+
+  it('Should send chat completions with the system prompt and JSON mode', async () => {
+    const requests = stubFetch(() => Response.json({ choices: [{ message: { content: '{"ok":true}' } }] }));
+    const provider = createOpenAIProvider({ model: 'gpt-test', apiKey: 'sk-test', baseUrl: 'http://llm.local/v1/' });
+    const text = await provider.generateText('Hello', { system: 'Be brief', json: true, temperature: 0 });
+
+    assert.equal(text, '{"ok":true}');
+    assert.equal(requests[0]!.url, 'http://llm.local/v1/chat/completions');
+    assert.equal((requests[0]!.init.headers as Record<string, string>).Authorization, 'Bearer sk-test');
+    assert.deepEqual(JSON.parse(requests[0]!.init.body as string), {
+      model: 'gpt-test',
+      messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hello' }],
+      temperature: 0,
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('Should return the embeddings in input order', async () => {
+    const requests = stubFetch(() => Response.json({
+      data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+    }));
+    const provider = createOpenAIProvider({ apiKey: 'sk-test', embeddingModel: 'embed-test' });
+
+    assert.deepEqual(await provider.embed!(['a', 'b']), [[1, 0], [0, 1]]);
+    assert.equal(requests[0]!.url, 'https://api.openai.com/v1/embeddings');
+    assert.deepEqual(JSON.parse(requests[0]!.init.body as string), { model: 'embed-test', input: ['a', 'b'] });
+  });
+
+  it('Should turn failed responses into request errors with the retry delay', async () => {
+    stubFetch(() => new Response('slow down', { status: 429, headers: { 'Retry-After': '2' } }));
+    const provider = createOpenAIProvider({ apiKey: 'sk-test' });
+    await assert.rejects(provider.generateText('Hello'), (e: RequestError) =>
+      e instanceof RequestError && e.status === 429 && e.retryAfterMs === 2000 && /slow down/.test(e.message),
+    );
+  });
+});
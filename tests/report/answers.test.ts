@@ -0,0 +1,70 @@
+import assert from 'node:assert';
+import { before, describe, it } from 'node:test';
+import type { ResearchResult } from '../../src/core/types';
+import { createVectorIndex } from '../../src/core/vector-index';
+import { createLocalEmbedder } from '../../src/models/embeddings';
+import { setLLMProvider } from '../../src/models/providers/ai-models';
+import { answerQuestion } from '../../src/report/answers';
+import { cacheConfigFromEnv, setCache } from '../../src/utils/cache';
+
+const result: ResearchResult = {
+  id: '20250101-000000-abcd',
+  query: 'Solid-state batteries',
+  searchQueries: ['solid state battery electrolytes'],
+  levels: [{ level: 1, breadth: 1, searchQueries: ['solid state battery electrolytes'], durationMs: 60_000 }],
+  learnings: ['Sulfide electrolytes reach 25 mS/cm'],
+  report: {
+    executiveSummary: 'Solid-state batteries are close to production.',
+    keyFindings: [
+      { title: 'Electrolytes', details: ['Sulfide electrolytes conduct best [1]'], level: 1, confidence: 'medium' },
+    ],
+    sources: [
+      { url: 'https://example.com/sulfide', title: 'Sulfide review', fetchedAt: '2025-01-01T00:00:00.000Z' },
+      { url: 'https://example.com/pilot', title: 'Pilot lines', fetchedAt: '2025-01-01T00:00:00.000Z' },
+    ],
+  },
+  timings: {
+    startedAt: '2025-01-01T12:00:00.000Z',
+    finishedAt: '2025-01-01T12:01:00.000Z',
+    durationMs: 60_000,
+  },
+};
+
+describe('answerQuestion', () => {
+  const prompts: string[] = [];
+
+  before(() => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setLLMProvider({
+      name: 'fake',
+      model: 'fake',
+      async generateText(prompt: string) {
+        prompts.push(prompt);
+        return JSON.stringify({ answer: 'Pilot lines open in 2026 [2][5].' });
+      },
+    });
+  });
+
+  it('Should answer from the findings and the most relevant passages, citing the sources', async () => {
+    const index = createVectorIndex({ embedder: createLocalEmbedder() });
+    await index.add([
+      { sourceId: 1, content: 'Sulfide electrolytes crack under mechanical pressure.' },
+      { sourceId: 2, content: 'Two pilot production lines for solid-state cells open in 2026.' },
+    ]);
+    const history = [{ question: 'Who builds the cells?', answer: 'Several carmakers [2].' }];
+    const answer = await answerQuestion({ result, question: 'When do the pilot lines open?', index, history });
+
+    // Citations of unknown sources are dropped
+    assert.equal(answer, 'Pilot lines open in 2026 [2].');
+    const prompt = prompts.at(-1)!;
+    assert.match(prompt, /- Electrolytes \(medium confidence\): Sulfide electrolytes conduct best \[1\]/);
+    assert.match(prompt, /Passages from the sources relevant to the question:\n\[2\] Two pilot production lines/);
+    assert.match(prompt, /Q: Who builds the cells\?\nA: Several carmakers \[2\]\./);
+    assert.match(prompt, /Question: When do the pilot lines open\?/);
+  });
+
+  it('Should answer from the findings alone without an index', async () => {
+    await answerQuestion({ result, question: 'What conducts best?' });
+    assert.doesNotMatch(prompts.at(-1)!, /Passages from the sources/);
+  });
+});
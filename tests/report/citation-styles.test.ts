@@ -0,0 +1,77 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { Source } from '../../src/core/types';
+import { formatCitation, toBibTeX, toCslJson } from '../../src/report/citation-styles';
+
+const dated: Source = {
+  url: 'https://www.example.com/iphone-16-review',
+  title: 'iPhone 16 Pro Max review',
+  author: 'Jane Doe',
+  siteName: 'Example Tech',
+  publishedAt: '2024-09-20T10:00:00.000Z',
+  fetchedAt: '2025-01-15T08:30:00.000Z',
+};
+
+const undated: Source = {
+  url: 'https://www.example.com/battery_100%',
+  title: 'Battery tests',
+  fetchedAt: '2025-01-15T08:30:00.000Z',
+};
+
+describe('formatCitation', () => {
+  it('Should format APA citations', () => {
+    assert.equal(
+      formatCitation(dated, 'apa'),
+      'Jane Doe. (2024, September 20). *iPhone 16 Pro Max review.* Example Tech. https://www.example.com/iphone-16-review',
+    );
+    assert.equal(
+      formatCitation(undated, 'apa'),
+      '*Battery tests.* (n.d.). example.com. Retrieved January 15, 2025, from https://www.example.com/battery_100%',
+    );
+  });
+
+  it('Should format MLA citations', () => {
+    assert.equal(
+      formatCitation(dated, 'mla'),
+      'Jane Doe. "iPhone 16 Pro Max review." *Example Tech*, 20 Sept. 2024, www.example.com/iphone-16-review. Accessed 15 Jan. 2025.',
+    );
+  });
+
+  it('Should format Chicago citations', () => {
+    assert.equal(
+      formatCitation(undated, 'chicago'),
+      '"Battery tests." example.com. Accessed January 15, 2025. https://www.example.com/battery_100%.',
+    );
+  });
+
+  it('Should format IEEE citations', () => {
+    assert.equal(
+      formatCitation(dated, 'ieee'),
+      'Jane Doe, "iPhone 16 Pro Max review," *Example Tech*. Accessed: Jan. 15, 2025. [Online]. Available: https://www.example.com/iphone-16-review',
+    );
+  });
+});
+
+describe('reference exports', () => {
+  it('Should write escaped BibTeX entries with unique keys', () => {
+    const bibtex = toBibTeX([dated, undated]);
+    assert.match(bibtex, /@misc\{exampletech2024_1,/);
+    assert.match(bibtex, /@misc\{examplecomnd_2,/);
+    assert.match(bibtex, /title = \{iPhone 16 Pro Max review\}/);
+    assert.match(bibtex, /urldate = \{2025-01-15\}/);
+  });
+
+  it('Should write CSL-JSON webpage items', () => {
+    const [item] = JSON.parse(toCslJson([dated]));
+    assert.deepEqual(item, {
+      id: 'source-1',
+      type: 'webpage',
+      title: 'iPhone 16 Pro Max review',
+      URL: 'https://www.example.com/iphone-16-review',
+      'container-title': 'Example Tech',
+      author: [{ literal: 'Jane Doe' }],
+      issued: { 'date-parts': [[2024, 9, 20]] },
+      accessed: { 'date-parts': [[2025, 1, 15]] },
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { parseMarkdownBlocks } from '../../src/report/markdown-blocks';
+
+describe('parseMarkdownBlocks', () => {
+  it('Should parse headings, lists, tables and paragraphs', () => {
+    const markdown = [
+      '### Battery',
+      'The battery is larger',
+      'and lasts longer [1].',
+      '',
+      '1. Buy the 16 [1]',
+      '   if battery matters',
+      '',
+      '2. Keep the 14 [2]',
+      '- A bullet',
+      '',
+      '| Model | Battery |',
+      '|:------|--------:|',
+      '| 14 | 20 h [1] |',
+      '| 16 | 24 h |',
+      'After the table.',
+    ].join('\n');
+
+    assert.deepEqual(parseMarkdownBlocks(markdown), [
+      { kind: 'heading', level: 3, text: 'Battery' },
+      { kind: 'paragraph', text: 'The battery is larger and lasts longer [1].' },
+      { kind: 'list', ordered: true, items: ['Buy the 16 [1] if battery matters', 'Keep the 14 [2]'] },
+      { kind: 'list', ordered: false, items: ['A bullet'] },
+      { kind: 'table', header: ['Model', 'Battery'], rows: [['14', '20 h [1]'], ['16', '24 h']] },
+      { kind: 'paragraph', text: 'After the table.' },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { ResearchResult } from '../../src/core/types';
+import { getRenderer, listFormats, renderReport } from '../../src/report/renderers';
+
+const result: ResearchResult = {
+  id: '20250101-000000-abcd',
+  query: 'iPhone 14 vs <16>',
+  searchQueries: ['iphone 16 battery'],
+  levels: [{ level: 1, breadth: 1, searchQueries: ['iphone 16 battery'], durationMs: 1200 }],
+  learnings: ['The iPhone 16 battery is larger'],
+  report: {
+    executiveSummary: 'The iPhone 16 lasts longer.\n\nIt also charges faster.',
+    keyFindings: [
+      { title: 'Battery', details: ['Battery life improved by 20% [1]'], level: 1 },
+    ],
+    sources: [
+      { url: 'https://example.com/battery', title: 'Battery test', fetchedAt: '2025-01-01T00:00:00.000Z' },
+    ],
+  },
+  timings: {
+    startedAt: '2025-01-01T00:00:00.000Z',
+    finishedAt: '2025-01-01T00:01:00.000Z',
+    durationMs: 60000,
+  },
+};
+
+describe('report renderers', () => {
+  it('Should register all built-in formats', () => {
+    assert.deepEqual(listFormats(), ['markdown', 'json', 'html', 'pdf-html', 'docx', 'bibtex', 'csl-json']);
+    assert.throws(() => getRenderer('rtf'), /Unknown report format "rtf"/);
+  });
+
+  it('Should export the full result as JSON', async () => {
+    assert.deepEqual(JSON.parse(String(await renderReport(result, 'json'))), result);
+  });
+
+  it('Should render markdown with numbered sources', async () => {
+    const markdown = String(await renderReport(result, 'markdown'));
+    assert.match(markdown, /### 1\. Battery _\(Level 1\)_/);
+    assert.match(markdown, /1\. \[Battery test\]\(https:\/\/example\.com\/battery\)/);
+  });
+
+  it('Should show the time window the report covers', async () => {
+    const dated: ResearchResult = {
+      ...result,
+      dateRange: { since: '2025-01-01' },
+      report: {
+        ...result.report,
+        sources: [
+          ...result.report.sources,
+          { url: 'https://example.com/a', title: 'A', publishedAt: '2025-03-02T10:00:00.000Z', fetchedAt: '2025-06-01T00:00:00.000Z' },
+          { url: 'https://example.com/b', title: 'B', publishedAt: '2025-01-15T00:00:00.000Z', fetchedAt: '2025-06-01T00:00:00.000Z' },
+        ],
+      },
+    };
+    assert.match(
+      String(await renderReport(dated, 'markdown')),
+      /\*\*Time window:\*\* since 2025-01-01 \(sources published 2025-01-15 to 2025-03-02, 1 undated\)/,
+    );
+    assert.match(String(await renderReport(dated, 'html')), /<strong>Time window:<\/strong> since 2025-01-01/);
+    assert.doesNotMatch(String(await renderReport(result, 'markdown')), /Time window/);
+  });
+
+  it('Should render escaped HTML with linked citations', async () => {
+    const html = String(await renderReport(result, 'html'));
+    assert.match(html, /iPhone 14 vs &lt;16&gt;/);
+    assert.match(html, /<a class="citation" href="#source-1">\[1\]<\/a>/);
+    assert.match(html, /<li id="source-1">/);
+    assert.doesNotMatch(html, /@page/);
+    assert.match(String(await renderReport(result, 'pdf-html')), /@page/);
+  });
+
+  it('Should render confidence levels and disputes', async () => {
+    const disputed: ResearchResult = {
+      ...result,
+      report: {
+        ...result.report,
+        keyFindings: [
+          { title: 'Battery', details: ['Battery life improved by 20% [1]'], level: 1, confidence: 'low' },
+          { title: 'Price', details: ['Unchanged [1]'], level: 1, confidence: 'low' },
+        ],
+        disputes: [{
+          topic: 'Battery life',
+          claims: [{ claim: 'Improved by 20%', sources: [1] }, { claim: 'Unchanged', sources: [2] }],
+          assessment: 'The test measured it.',
+          findings: [1],
+        }],
+      },
+    };
+    const markdown = String(await renderReport(disputed, 'markdown'));
+    assert.match(markdown, /### 1\. Battery _\(Level 1, low confidence\)_/);
+    assert.match(markdown, /## Disputed \/ Uncertain\n### Battery life\n- Improved by 20% \[1\]\n- Unchanged \[2\]/);
+    // Disputed findings are listed with their dispute only
+    assert.match(markdown, /### Backed by a single site\n- 2\. Price\n/);
+
+    const html = String(await renderReport(disputed, 'html'));
+    assert.match(html, /<h2>Disputed \/ Uncertain<\/h2>\n<h3>Battery life<\/h3>/);
+    assert.doesNotMatch(String(await renderReport(result, 'markdown')), /Disputed/);
+  });
+
+  it('Should render the sections of a template in order', async () => {
+    const templated: ResearchResult = {
+      ...result,
+      report: {
+        ...result.report,
+        template: 'test',
+        sections: [
+          { kind: 'findings', title: 'Findings' },
+          { kind: 'text', id: 'comparison', title: 'Comparison', content: '| Model | Battery |\n|---|---|\n| 16 | 24 h [1] |' },
+        ],
+      },
+    };
+    const markdown = String(await renderReport(templated, 'markdown'));
+    assert.ok(markdown.indexOf('## Findings') < markdown.indexOf('## Comparison'));
+    assert.doesNotMatch(markdown, /## Executive Summary|## Search Queries Used/);
+
+    const html = String(await renderReport(templated, 'html'));
+    assert.match(html, /<td>24 h <a class="citation" href="#source-1">\[1\]<\/a><\/td>/);
+
+    const docx = await renderReport(templated, 'docx');
+    assert.equal(Buffer.from((docx as Uint8Array).subarray(0, 2)).toString(), 'PK');
+  });
+
+  it('Should render a DOCX (zip) document', async () => {
+    const docx = await renderReport(result, 'docx');
+    assert.ok(docx instanceof Uint8Array);
+    assert.equal(Buffer.from(docx.subarray(0, 2)).toString(), 'PK');
+  });
+});
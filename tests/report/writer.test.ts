@@ -0,0 +1,147 @@
+import assert from 'node:assert';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { before, describe, it } from 'node:test';
+import type { ResearchResult } from '../../src/core/types';
+import { createVectorIndex } from '../../src/core/vector-index';
+import { createLocalEmbedder } from '../../src/models/embeddings';
+import { setLLMProvider } from '../../src/models/providers/ai-models';
+import { getTemplate, loadTemplate, type ReportTemplate } from '../../src/report/templates';
+import { formatMethodology, writeReport } from '../../src/report/writer';
+import { cacheConfigFromEnv, setCache } from '../../src/utils/cache';
+
+const result: ResearchResult = {
+  id: '20250101-000000-abcd',
+  query: 'iPhone 14 vs 16',
+  searchQueries: ['iphone 16 battery', 'iphone 16 camera', 'iphone 16 price'],
+  levels: [
+    { level: 1, breadth: 2, searchQueries: ['iphone 16 battery', 'iphone 16 camera'], durationMs: 90_000 },
+    { level: 2, breadth: 1, searchQueries: ['iphone 16 price'], durationMs: 30_000 },
+  ],
+  learnings: ['The iPhone 16 battery is larger'],
+  report: {
+    executiveSummary: 'The iPhone 16 lasts longer.',
+    keyFindings: [
+      { title: 'Battery', details: ['Battery life improved by 20% [1]'], level: 1 },
+      { title: 'Price', details: ['The price is unchanged [2]'], level: 2 },
+    ],
+    sources: [
+      { url: 'https://example.com/battery', title: 'Battery test', fetchedAt: '2025-01-01T00:00:00.000Z' },
+      { url: 'https://example.com/price', title: 'Price list', fetchedAt: '2025-01-01T00:00:00.000Z' },
+    ],
+  },
+  timings: {
+    startedAt: '2025-01-01T12:00:00.000Z',
+    finishedAt: '2025-01-01T12:02:00.000Z',
+    durationMs: 120_000,
+  },
+};
+
+const template: ReportTemplate = {
+  name: 'test',
+  description: 'Test template',
+  sections: [
+    { kind: 'written', id: 'introduction', title: 'Introduction', instructions: 'Introduce the topic.', maxWords: 100 },
+    { kind: 'methodology', title: 'Methodology' },
+    { kind: 'findings', title: 'Findings' },
+    { kind: 'written', id: 'broken', title: 'Broken', instructions: 'Fail.', maxWords: 100 },
+  ],
+};
+
+describe('formatMethodology', () => {
+  it('Should list the queries of every level with when they ran', () => {
+    const methodology = formatMethodology(result);
+    assert.match(methodology, /started on 2025-01-01 12:00 UTC and took 2\.0 minutes/);
+    assert.match(methodology, /### Level 2\nStarted 2025-01-01 12:01 UTC, took 30s, 1 search queries:\n\n1\. iphone 16 price/);
+  });
+
+  it('Should show when levels dug into later started', () => {
+    const dug = {
+      ...result,
+      levels: [
+        ...result.levels,
+        { level: 3, breadth: 1, searchQueries: ['iphone 16 repairs'], durationMs: 20_000, topic: 'Repairs', startedAt: '2025-01-03T09:30:00.000Z' },
+      ],
+    };
+    assert.match(formatMethodology(dug), /### Level 3: follow-up on Repairs\nStarted 2025-01-03 09:30 UTC, took 20s/);
+  });
+});
+
+describe('writeReport', () => {
+  const prompts: string[] = [];
+
+  before(() => {
+    setCache({ ...cacheConfigFromEnv(), enabled: false });
+    setLLMProvider({
+      name: 'fake',
+      model: 'fake',
+      async generateText(prompt: string) {
+        prompts.push(prompt);
+        if (prompt.includes('"Broken" section')) {
+          return 'not json';
+        }
+        return JSON.stringify({ content: 'The iPhone 16 is new [1][7].' });
+      },
+    });
+  });
+
+  it('Should fill the sections of the template in order', async () => {
+    const written = await writeReport(result, template);
+    assert.equal(written.report.template, 'test');
+    assert.deepEqual(written.report.sections, [
+      // Citations of unknown sources are dropped
+      { kind: 'text', id: 'introduction', title: 'Introduction', content: 'The iPhone 16 is new [1].' },
+      { kind: 'text', id: 'methodology', title: 'Methodology', content: formatMethodology(result) },
+      { kind: 'findings', title: 'Findings' },
+      // Sections the model fails to write are left out
+    ]);
+
+    const prompt = prompts.find(p => p.includes('"Introduction" section'))!;
+    assert.match(prompt, /Instructions for this section: Introduce the topic\./);
+    assert.match(prompt, /\[2\] Price list \(https:\/\/example\.com\/price\)/);
+    assert.match(prompt, /at most 100 words/);
+  });
+
+  it('Should leave the least important findings out when the context is too small', async () => {
+    prompts.length = 0;
+    await writeReport(result, { ...template, sections: template.sections.slice(0, 1) }, { maxTokens: 55 });
+    assert.match(prompts[0]!, /- Battery: Battery life improved by 20% \[1\]/);
+    assert.doesNotMatch(prompts[0]!, /- Price:/);
+  });
+
+  it('Should ground sections in the passages most relevant to them', async () => {
+    prompts.length = 0;
+    const index = createVectorIndex({ embedder: createLocalEmbedder() });
+    await index.add([
+      { sourceId: 1, content: 'The topic introduction: smartphones replaced cameras and music players.' },
+      { sourceId: 2, content: 'Storage prices rose for the 512 GB models in Europe.' },
+    ]);
+    await writeReport(result, { ...template, sections: template.sections.slice(0, 1) }, { index });
+    assert.match(prompts[0]!, /\[1\] The topic introduction: smartphones replaced cameras/);
+  });
+
+  it('Should not write reports of failed runs', async () => {
+    const failed = { ...result, error: 'Research failed' };
+    assert.equal(await writeReport(failed, template), failed);
+  });
+});
+
+describe('templates', () => {
+  it('Should load built-in templates by name', async () => {
+    assert.equal((await loadTemplate('long-form')).name, 'long-form');
+    assert.equal(getTemplate('briefing').sections.length, 3);
+    await assert.rejects(loadTemplate('nope'), /Unknown report template "nope"/);
+  });
+
+  it('Should load and validate templates from files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'templates-'));
+    const valid = join(dir, 'valid.ts');
+    await writeFile(valid, `export default ${JSON.stringify(template)};`);
+    assert.deepEqual(await loadTemplate(valid), template);
+
+    const invalid = join(dir, 'invalid.ts');
+    await writeFile(invalid, `export default { name: 'broken', sections: [{ kind: 'written', title: 'No instructions' }] };`);
+    await assert.rejects(loadTemplate(invalid), /does not export a valid report template: sections\.0\.id/);
+  });
+});
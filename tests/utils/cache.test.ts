@@ -0,0 +1,60 @@
+import assert from 'node:assert';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { cacheKey, createCache, type CacheConfig } from '../../src/utils/cache';
+
+describe('createCache', () => {
+  let config: CacheConfig;
+
+  before(async () => {
+    config = {
+      enabled: true,
+      directory: await mkdtemp(join(tmpdir(), 'cache-')),
+      ttlMs: { search: 60_000, llm: 0 },
+    };
+  });
+
+  after(async () => {
+    await rm(config.directory, { recursive: true, force: true });
+  });
+
+  it('Should address entries by key content, regardless of key order', () => {
+    assert.equal(cacheKey({ a: 1, b: [1, 2] }), cacheKey({ b: [1, 2], a: 1, c: undefined }));
+    assert.notEqual(cacheKey({ a: 1 }), cacheKey({ a: 2 }));
+  });
+
+  it('Should return cached values until they expire', async () => {
+    const cache = createCache(config);
+    let calls = 0;
+    const fn = async () => ++calls;
+
+    assert.equal(await cache.wrap('search', { query: 'battery' }, fn), 1);
+    assert.equal(await cache.wrap('search', { query: 'battery' }, fn), 1);
+    assert.equal(await cache.wrap('search', { query: 'camera' }, fn), 2);
+
+    // A zero TTL expires entries right away
+    await cache.set('llm', { prompt: 'p' }, 'response');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    assert.equal(await cache.get('llm', { prompt: 'p' }), undefined);
+  });
+
+  it('Should not cache failures or use a disabled cache', async () => {
+    const cache = createCache(config);
+    await assert.rejects(cache.wrap('search', { query: 'fails' }, async () => {
+      throw new Error('429');
+    }));
+    assert.equal(await cache.wrap('search', { query: 'fails' }, async () => 'ok'), 'ok');
+
+    // Values keep rejects are neither cached nor read from the cache
+    const keep = (value: string) => value !== 'bad';
+    assert.equal(await cache.wrap('llm', { prompt: 'q' }, async () => 'bad', { keep }), 'bad');
+    assert.equal(await cache.wrap('search', { query: 'q' }, async () => 'bad'), 'bad');
+    assert.equal(await cache.wrap('search', { query: 'q' }, async () => 'good', { keep }), 'good');
+    assert.equal(await cache.get('search', { query: 'q' }), 'good');
+
+    const disabled = createCache({ ...config, enabled: false });
+    assert.equal(await disabled.get('search', { query: 'battery' }), undefined);
+  });
+});
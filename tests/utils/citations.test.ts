@@ -0,0 +1,61 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  extractCitations,
+  pruneCitations,
+  remapCitations,
+  stripCitations,
+  UnverifiedMarker,
+} from '../../src/utils/citations';
+
+describe('citations', () => {
+  it('Should extract citation ids in order of appearance', () => {
+    assert.deepEqual(extractCitations('Battery lasts longer [2][1]'), [2, 1]);
+    assert.deepEqual(extractCitations('Faster chip [1, 3] and more RAM [3]'), [1, 3]);
+    assert.deepEqual(extractCitations('No citations here'), []);
+  });
+
+  it('Should strip citation markers', () => {
+    assert.equal(stripCitations('Faster chip [1][2].'), 'Faster chip.');
+    assert.equal(stripCitations(`Faster chip ${UnverifiedMarker}`), 'Faster chip');
+  });
+
+  it('Should remap chunk-local ids to run-wide ids', () => {
+    const mapping = new Map([
+      [1, 4],
+      [2, 7],
+    ]);
+    assert.deepEqual(remapCitations('Faster chip [2][1]', mapping), {
+      text: 'Faster chip [7][4]',
+      citations: [7, 4],
+    });
+    assert.deepEqual(remapCitations('Faster chip [1][9]', mapping), {
+      text: 'Faster chip [4]',
+      citations: [4],
+    });
+  });
+
+  it('Should flag details without a valid citation', () => {
+    const mapping = new Map([[1, 4]]);
+    assert.deepEqual(remapCitations('Unsupported claim [5]', mapping), {
+      text: `Unsupported claim ${UnverifiedMarker}`,
+      citations: [],
+    });
+    // A detail remapped again, e.g. in synthesis, is flagged once
+    assert.deepEqual(remapCitations(`Unsupported claim ${UnverifiedMarker}`, mapping), {
+      text: `Unsupported claim ${UnverifiedMarker}`,
+      citations: [],
+    });
+    assert.deepEqual(remapCitations(`Supported claim ${UnverifiedMarker} [1]`, mapping), {
+      text: 'Supported claim [4]',
+      citations: [4],
+    });
+  });
+
+  it('Should prune unknown citations without touching the layout', () => {
+    assert.equal(
+      pruneCitations('| Battery | 20 h [1][9] | 18 h [2, 3] |', 2),
+      '| Battery | 20 h [1] | 18 h [2] |',
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert';
+import { afterEach, describe, it } from 'node:test';
+import { getLogger, setLogger, silentLogger, withLogger, type Logger } from '../../src/utils/logger';
+
+// A logger that keeps the lines it is given
+function recordingLogger(lines: string[]): Logger {
+  return {
+    log: (...args: unknown[]) => lines.push(args.join(' ')),
+    warn: (...args: unknown[]) => lines.push(`warn: ${args.join(' ')}`),
+    error: (...args: unknown[]) => lines.push(`error: ${args.join(' ')}`),
+  };
+}
+
+describe('logger', () => {
+  afterEach(() => setLogger(silentLogger));
+
+  it('Should be silent by default', () => {
+    assert.equal(getLogger(), silentLogger);
+  });
+
+  it('Should use the logger set as default', () => {
+    const lines: string[] = [];
+    setLogger(recordingLogger(lines));
+    getLogger().log('hello');
+    getLogger().warn('careful');
+    assert.deepEqual(lines, ['hello', 'warn: careful']);
+  });
+
+  it('Should scope a logger to everything a run calls, across awaits', async () => {
+    const defaults: string[] = [];
+    const first: string[] = [];
+    const second: string[] = [];
+    setLogger(recordingLogger(defaults));
+
+    const step = async (name: string) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      getLogger().log(name);
+    };
+    // Two runs at once each log to their own logger
+    await Promise.all([
+      withLogger(recordingLogger(first), async () => {
+        await step('a');
+        await step('b');
+      }),
+      withLogger(recordingLogger(second), () => step('c')),
+    ]);
+    getLogger().log('after');
+
+    assert.deepEqual(first, ['a', 'b']);
+    assert.deepEqual(second, ['c']);
+    assert.deepEqual(defaults, ['after']);
+  });
+});
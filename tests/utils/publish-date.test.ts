@@ -0,0 +1,37 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { extractPublishDate, formatDateRange, normalizeDate } from '../../src/utils/publish-date';
+
+const now = Date.parse('2025-06-01T00:00:00.000Z');
+
+describe('extractPublishDate', () => {
+  it('Should read the date from meta tags, JSON-LD and time elements', () => {
+    assert.equal(
+      extractPublishDate('<meta content="2025-03-14T09:30:00Z" property="article:published_time"><meta name="date" content="2020-01-01">', now),
+      '2025-03-14T09:30:00.000Z',
+    );
+    assert.equal(extractPublishDate('<script>{"@type":"NewsArticle","datePublished":"2024-11-02"}</script>', now), '2024-11-02T00:00:00.000Z');
+    assert.equal(extractPublishDate('<p>By Ann <time class="x" datetime="2024-05-06">May 6</time></p>', now), '2024-05-06T00:00:00.000Z');
+  });
+
+  it('Should read the date from front matter and the text of a page', () => {
+    assert.equal(extractPublishDate('---\ntitle: Notes\ndate: 2025-02-03\n---\n# Notes', now), '2025-02-03T00:00:00.000Z');
+    assert.match(extractPublishDate('# Review\n\nPublished on March 14th, 2025 by the editors', now)!, /^2025-03-14/);
+    assert.match(extractPublishDate('Last updated: 2 April 2025\n\nText', now)!, /^2025-04-02/);
+    assert.equal(extractPublishDate('The company was founded in 2010 and went public on 2015-06-01.', now), undefined);
+  });
+
+  it('Should ignore implausible dates', () => {
+    assert.equal(normalizeDate('2031-01-01', now), undefined);
+    assert.equal(normalizeDate('1970-01-01', now), undefined);
+    assert.equal(normalizeDate('soon', now), undefined);
+  });
+});
+
+describe('formatDateRange', () => {
+  it('Should describe open and closed ranges', () => {
+    assert.equal(formatDateRange({ since: '2025-01-01', until: '2025-06-30' }), '2025-01-01 to 2025-06-30');
+    assert.equal(formatDateRange({ since: '2025-01-01' }), 'since 2025-01-01');
+    assert.equal(formatDateRange({ until: '2024-12-31' }), 'until 2024-12-31');
+  });
+});
@@ -0,0 +1,105 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  createScheduler,
+  parseRetryAfter,
+  RequestError,
+  type SchedulerConfig,
+} from '../../src/utils/scheduler';
+
+const config: SchedulerConfig = {
+  quotas: { gemini: { concurrency: 1, requestsPerMinute: 2, tokensPerMinute: 1000 } },
+  defaultQuota: { concurrency: 2 },
+  retries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  maxRetryAfterMs: 5 * 60_000,
+};
+
+// A scheduler on a fake clock that only moves when it sleeps
+function fakeScheduler() {
+  let clock = 0;
+  const sleeps: number[] = [];
+  const scheduler = createScheduler(config, {
+    now: () => clock,
+    sleep: async ms => {
+      sleeps.push(ms);
+      clock += ms;
+    },
+    random: () => 1,
+  });
+  return { scheduler, sleeps, now: () => clock };
+}
+
+describe('createScheduler', () => {
+  it('Should wait for the requests per minute quota', async () => {
+    const { scheduler, sleeps } = fakeScheduler();
+    for (let i = 0; i < 3; i++) {
+      await scheduler.run('gemini', async () => i);
+    }
+    // Two requests fit in the bucket, the third waits for half a minute
+    assert.deepEqual(sleeps, [30_000]);
+    assert.equal(scheduler.stats().gemini!.throttledMs, 30_000);
+  });
+
+  it('Should wait for the tokens per minute quota', async () => {
+    const { scheduler, sleeps } = fakeScheduler();
+    await scheduler.run('gemini', async () => 1, { tokens: 1000 });
+    await scheduler.run('gemini', async () => 2, { tokens: 500 });
+    assert.deepEqual(sleeps, [30_000]);
+  });
+
+  it('Should honor Retry-After on rate limits', async () => {
+    const { scheduler, sleeps } = fakeScheduler();
+    let calls = 0;
+    const result = await scheduler.run('searxng', async () => {
+      if (calls++ === 0) throw new RequestError('SearxNG request failed (429)', 429, 20_000);
+      return 'ok';
+    });
+    assert.equal(result, 'ok');
+    assert.deepEqual(sleeps, [20_000]);
+    assert.deepEqual(scheduler.stats().searxng, {
+      requests: 2,
+      retries: 1,
+      rateLimited: 1,
+      failures: 0,
+      throttledMs: 20_000,
+    });
+  });
+
+  it('Should back off exponentially and give up after the retries', async () => {
+    const { scheduler, sleeps } = fakeScheduler();
+    await assert.rejects(
+      scheduler.run('ollama', async () => {
+        throw new Error('fetch failed');
+      }),
+      /fetch failed/,
+    );
+    assert.deepEqual(sleeps, [1000, 2000]);
+    assert.equal(scheduler.stats().ollama!.failures, 1);
+  });
+
+  it('Should not retry requests that cannot succeed', async () => {
+    const { scheduler, sleeps } = fakeScheduler();
+    let calls = 0;
+    await assert.rejects(scheduler.run('openai', async () => {
+      calls++;
+      throw new RequestError('OpenAI request failed (401)', 401);
+    }));
+    // Nor rate limits that reset too late to wait for
+    await assert.rejects(scheduler.run('firecrawl', async () => {
+      calls++;
+      throw Object.assign(new Error('Rate limit exceeded (resets at 2099-01-01T00:00:00Z)'), { statusCode: 429 });
+    }));
+    assert.equal(calls, 2);
+    assert.deepEqual(sleeps, []);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('Should parse seconds and HTTP dates', () => {
+    assert.equal(parseRetryAfter('30'), 30_000);
+    assert.equal(parseRetryAfter('Thu, 01 Jan 1970 00:01:00 GMT', 0), 60_000);
+    assert.equal(parseRetryAfter(null), undefined);
+  });
+});